@@ -0,0 +1,48 @@
+#!/usr/bin/env node
+// generate-types.mjs
+import fs from 'fs';
+import path from 'path';
+import { MySQL, envConfig, generateTypes } from '../dist/index.cjs';
+
+/**
+ * Generates the TypeScript row interfaces of the database configured in `.env` (`MYSQL_*` variables).
+ *
+ * Usage:
+ *   kitdbase-types [--out src/database.ts] [--tables users,posts] [--name Database]
+ *
+ * Without `--out`, the generated source is printed to the standard output.
+ */
+async function main() {
+    const args = process.argv.slice(2);
+    const option = (name) => {
+        const index = args.indexOf(`--${name}`);
+        return index >= 0 ? args[index + 1] : undefined;
+    };
+
+    const out = option('out');
+    const tables = option('tables');
+    const db = new MySQL(envConfig());
+
+    try {
+        const source = await generateTypes(db, {
+            tables: tables ? tables.split(',').map(table => table.trim()).filter(Boolean) : undefined,
+            databaseName: option('name'),
+        });
+
+        if (out) {
+            const file = path.resolve(process.cwd(), out);
+            fs.mkdirSync(path.dirname(file), { recursive: true });
+            fs.writeFileSync(file, source);
+            console.log(`Types written to ${file}`);
+        } else {
+            process.stdout.write(source);
+        }
+    } catch (error) {
+        console.error('Could not generate the types:', error.message);
+        process.exitCode = 1;
+    } finally {
+        await db.end();
+    }
+}
+
+main();
@@ -1,3 +1,9 @@
+import type { Readable } from 'node:stream';
+import type { DatabaseError } from '../lib/errors.js';
+import type { Raw } from '../lib/identifiers.js';
+import type { MySQL, TableQuery } from '../lib/mysql.js';
+import type { TableBuilder } from '../lib/schema.js';
+
 export interface Field {
     name: string;
     type: string;
@@ -8,18 +14,361 @@ export interface Field {
         table: string;
         column: string;
     };
+    /** FULLTEXT index: `true` indexes the column alone, fields sharing a name are indexed together. */
+    fullText?: boolean | string;
 }
 
 export interface Condition {
-    column?: string;
+    column?: CompiledQuery;
     operator?: string;
     value?: any;
-    query?: any;
+    query?: CompiledQuery;
     type: string;
     isGroup: boolean;
 }
 
+/**
+ * A query nested inside another one: a `TableQuery` or a callback that builds it on a fresh query of the same table.
+ */
+export type Subquery = TableQuery<any, any> | ((query: TableQuery) => void);
+
+/**
+ * A named query declared in a WITH clause.
+ */
+export interface CommonTableExpression {
+    name: string;
+    columns: string[];
+    query: TableQuery<any, any> | Raw;
+    recursive: boolean;
+}
+
+/**
+ * The search mode of `MATCH ... AGAINST`: natural language (default), boolean operators or query expansion.
+ */
+export interface FullTextOptions {
+    mode?: 'natural' | 'boolean' | 'expansion';
+}
+
 export interface OrderBy {
-    column: string;
+    column: CompiledQuery;
     direction: string;
-}
\ No newline at end of file
+}
+
+export interface CompiledQuery {
+    sql: string;
+    bindings: any[];
+}
+
+export interface QueryExecutor {
+    execute(sql: string, bindings?: any[]): Promise<any>;
+    /** Streams the rows of a SELECT one by one instead of buffering them. */
+    stream?(sql: string, bindings?: any[]): Readable;
+    /** The behaviour registered for a table with `db.configureTable()`. */
+    tableOptions?(tableName: string): TableOptions | undefined;
+}
+
+/**
+ * Per-table behaviour registered with `db.configureTable()` and applied to every `table()` query.
+ */
+export interface TableOptions {
+    /** Soft-delete mode: `true` uses the `deleted_at` column, a string names another column. */
+    softDeletes?: boolean | string;
+    /**
+     * Fill `created_at` on insert and `updated_at` on insert and update when the row does not set them.
+     * Use the object form to rename a column or disable it with `false`.
+     */
+    timestamps?: boolean | { createdAt?: string | false; updatedAt?: string | false };
+    /** The JS type each column is converted into when read. */
+    casts?: Record<string, CastType>;
+    /** Functions run around the writes of the table. */
+    hooks?: TableHooks;
+}
+
+/** The value of a `before*` hook: `false` (or a promise of it) cancels the write. */
+export type HookResult = void | boolean | Promise<void | boolean>;
+
+/**
+ * Functions run around the writes of a table. `before*` hooks receive copies of the written values,
+ * which they can change in place, and cancel the write by returning `false`.
+ * Every hook also receives the query, so it can read its conditions or run it (e.g. `query.get()` before an update).
+ */
+export interface TableHooks {
+    /** Runs before `insert`, `upsert`, `insertIgnore` and `replace`. */
+    beforeInsert?(rows: Record<string, any>[], query: TableQuery<any, any>): HookResult;
+    afterInsert?(rows: Record<string, any>[], result: InsertResult, query: TableQuery<any, any>): void | Promise<void>;
+    /** Runs before `update` and `restore`. */
+    beforeUpdate?(data: Record<string, any>, query: TableQuery<any, any>): HookResult;
+    afterUpdate?(data: Record<string, any>, result: any, query: TableQuery<any, any>): void | Promise<void>;
+    /** Runs before `delete` (also when it only soft-deletes) and `forceDelete`. */
+    beforeDelete?(query: TableQuery<any, any>): HookResult;
+    afterDelete?(result: any, query: TableQuery<any, any>): void | Promise<void>;
+}
+
+/**
+ * A statement reported to the `db.on('query')` listeners once it has finished.
+ */
+export interface QueryEvent {
+    sql: string;
+    bindings: any[];
+    /** Time spent waiting for the server, in milliseconds. */
+    durationMs: number;
+    /** Rows returned by a SELECT or affected by a write; null when the statement failed. */
+    rowCount: number | null;
+    error: DatabaseError | null;
+}
+
+/** Types that a column can be converted into when read (see `TableOptions.casts`). */
+export type CastType = 'boolean' | 'number' | 'bigint' | 'date' | 'json' | 'string';
+
+/** Column names of a row type (any string when the row type is not declared). */
+export type ColumnName<T> = Extract<keyof T, string>;
+
+/** A path inside a JSON column, e.g. `meta->address.city` or `meta->tags[0]`. */
+export type JsonColumn<T> = `${ColumnName<T>}->${string}`;
+
+/** A column of the table, a qualified `table.column` reference (e.g. from a joined table) or a JSON path. */
+export type ColumnReference<T> = ColumnName<T> | `${string}.${string}` | JsonColumn<T>;
+
+/** A column accepted by `select`, optionally followed by an alias. */
+export type SelectColumn<T> = ColumnReference<T> | `${ColumnReference<T>} as ${string}` | `${ColumnReference<T>} AS ${string}`;
+
+/**
+ * The row returned after adding an aggregate aliased as `A`: the selected columns plus the alias,
+ * or only the aggregates when no columns were selected.
+ */
+export type WithAggregate<T, R, A extends string, V = number> = unknown extends T
+    ? any
+    : R extends T ? { [K in A]: V } : R & { [K in A]: V };
+
+/** The values accepted by `insert`/`update` for a row type. */
+export type RowInput<T> = { [K in keyof T]?: T[K] | Raw | null };
+
+/** The values accepted by `update`: columns plus single keys of JSON columns (`meta->plan`). */
+export type UpdateInput<T> = RowInput<T> | (RowInput<T> & Partial<Record<JsonColumn<T>, any>>);
+
+export interface Paginated<R> {
+    data: R[];
+    total: number;
+    page: number;
+    perPage: number;
+    lastPage: number;
+}
+
+export interface CursorOptions<T> {
+    after?: any;
+    column?: ColumnReference<T>;
+    limit?: number;
+    direction?: 'ASC' | 'DESC' | 'asc' | 'desc';
+}
+
+export interface CursorPage<R> {
+    data: R[];
+    nextCursor: any;
+    hasMore: boolean;
+}
+
+export interface InsertOptions {
+    fetch?: boolean;
+    key?: string;
+    chunkSize?: number;
+}
+
+export interface InsertResult {
+    insertId: number;
+    affectedRows: number;
+}
+
+export interface UpsertOptions<T> {
+    update?: ColumnName<T>[] | RowInput<T>;
+    rowAlias?: string;
+    chunkSize?: number;
+}
+
+/** Maps table names to row types, e.g. `{ users: User; posts: Post }`. */
+export type Schema = Record<string, any>;
+
+/** The row type registered for a table, or `any` when the table is not part of the schema. */
+export type TableRow<DB, K> = K extends keyof DB ? DB[K] : any;
+
+/** A migration module: `up` applies the change and `down` reverts it. */
+export interface Migration {
+    up(db: MySQL): Promise<void> | void;
+    down(db: MySQL): Promise<void> | void;
+}
+
+export interface MigratorOptions {
+    /** Directory containing the migration files (defaults to `migrations` in the working directory). */
+    directory?: string;
+    /** Name of the ledger table (defaults to `kit_migrations`). */
+    table?: string;
+    /** File extensions loaded as migrations (defaults to `.js`, `.mjs` and `.cjs`; add `.ts` when running under a TypeScript loader). */
+    extensions?: string[];
+}
+
+export interface MigrationStatus {
+    name: string;
+    ran: boolean;
+    batch: number | null;
+    migratedAt: Date | null;
+}
+
+/** Action of a foreign key when the referenced row changes. */
+export type ReferentialAction = 'cascade' | 'set null' | 'restrict' | 'no action' | 'set default'
+    | 'CASCADE' | 'SET NULL' | 'RESTRICT' | 'NO ACTION' | 'SET DEFAULT';
+
+export interface CreateTableOptions {
+    ifNotExists?: boolean;
+}
+
+/** A column as reported by `information_schema.COLUMNS`. */
+export interface ColumnInfo {
+    name: string;
+    position: number;
+    /** Full column type, e.g. `varchar(191)` or `int unsigned`. */
+    type: string;
+    /** Base type, e.g. `varchar`. */
+    dataType: string;
+    length: number | null;
+    /** Numeric precision, or fractional seconds for temporal types. */
+    precision: number | null;
+    scale: number | null;
+    unsigned: boolean;
+    /** Allowed values of ENUM and SET columns. */
+    values: string[] | null;
+    nullable: boolean;
+    defaultValue: string | null;
+    /** Whether the default is an expression (`CURRENT_TIMESTAMP`, ...) rather than a literal. */
+    defaultIsExpression: boolean;
+    autoIncrement: boolean;
+    onUpdate: string | null;
+    charset: string | null;
+    collation: string | null;
+    comment: string;
+}
+
+export interface IndexInfo {
+    name: string;
+    type: 'PRIMARY' | 'UNIQUE' | 'INDEX' | 'FULLTEXT' | 'SPATIAL';
+    /** Indexed columns, in index order. */
+    columns: string[];
+}
+
+export interface ForeignKeyInfo {
+    name: string;
+    columns: string[];
+    referencedTable: string;
+    referencedColumns: string[];
+    onDelete: string;
+    onUpdate: string;
+}
+
+export interface CheckInfo {
+    name: string;
+    expression: string;
+}
+
+export interface TableInfo {
+    name: string;
+    engine: string | null;
+    charset: string | null;
+    collation: string | null;
+    comment: string;
+    rowFormat: string | null;
+    autoIncrement: number | null;
+    createdAt: Date | null;
+    columns: ColumnInfo[];
+    indexes: IndexInfo[];
+    foreignKeys: ForeignKeyInfo[];
+    checks: CheckInfo[];
+}
+
+export interface DatabaseInfo {
+    name: string;
+    tables: TableInfo[];
+}
+
+export interface IntrospectOptions {
+    /** Database to read (defaults to the connected one). */
+    database?: string;
+    /** Restricts the result to these tables. */
+    tables?: string[];
+}
+
+/** Declared tables, keyed by name, as schema builder callbacks. */
+export type TableDefinitions = Record<string, (table: TableBuilder) => void>;
+
+/** A statement of a schema diff plan. */
+export interface SchemaStatement {
+    table: string;
+    type: 'create' | 'alter' | 'drop';
+    sql: string;
+    bindings: any[];
+    /** Whether the statement can lose data (dropping tables or columns, narrowing column types). */
+    destructive: boolean;
+}
+
+export interface SchemaDiffOptions {
+    /** Live tables that are never dropped (defaults to the migration tables). */
+    ignore?: string[];
+}
+
+export interface SyncOptions extends SchemaDiffOptions {
+    /** Applies destructive statements too; otherwise they are skipped. */
+    allowDestructive?: boolean;
+    /** Prints the SQL instead of running it. */
+    dryRun?: boolean;
+    /** Receives each statement in dry-run mode (defaults to `console.log`). */
+    logger?: (sql: string) => void;
+}
+
+export interface SyncResult {
+    /** Statements that were run (or would run, in dry-run mode). */
+    statements: SchemaStatement[];
+    /** Destructive statements left out because `allowDestructive` was not set. */
+    skipped: SchemaStatement[];
+}
+
+export interface TypeGenerationOptions {
+    /** Restricts the output to these tables. */
+    tables?: string[];
+    /** Name of the table map type (defaults to `Database`). */
+    databaseName?: string;
+    /** Interface name of each table (defaults to PascalCase: `order_items` -> `OrderItems`). */
+    interfaceName?: (table: string) => string;
+}
+
+/** A `hasMany` relation: rows of `table` whose `foreignKey` points at the model's `localKey`. */
+export interface HasManyRelation {
+    type: 'hasMany';
+    table: string;
+    foreignKey: string;
+    localKey: string;
+}
+
+/** A `belongsTo` relation: the row of `table` whose `ownerKey` the model's `foreignKey` points at. */
+export interface BelongsToRelation {
+    type: 'belongsTo';
+    table: string;
+    foreignKey: string;
+    ownerKey: string;
+}
+
+/** A many-to-many relation through a `pivot` table holding one key of each side. */
+export interface ManyToManyRelation {
+    type: 'manyToMany';
+    table: string;
+    pivot: string;
+    foreignPivotKey: string;
+    relatedPivotKey: string;
+    localKey: string;
+    relatedKey: string;
+}
+
+export type Relation = HasManyRelation | BelongsToRelation | ManyToManyRelation;
+
+export interface ModelDefinition {
+    /** The database the model queries (defaults to the default instance). */
+    connection?: MySQL<any>;
+    /** The relations that can be eager loaded with `with()`, by name. */
+    relations?: Record<string, Relation>;
+}
@@ -1,3 +1,14 @@
 import db from './lib/mysql';
 
-export default db;
\ No newline at end of file
+export { MySQL, Transaction, TableQuery, WithClause, JoinClause, Columns, createDatabase, envConfig } from './lib/mysql';
+export { raw, Raw } from './lib/identifiers';
+export { Migrator } from './lib/migrations';
+export { defineModel, hasMany, belongsTo, manyToMany, Model, ModelQuery } from './lib/models';
+export { SchemaBuilder, TableBuilder, ColumnBuilder, ForeignKeyBuilder } from './lib/schema';
+export { introspect, toTableBuilder } from './lib/introspection';
+export { diffSchema } from './lib/diff';
+export { generateTypes } from './lib/typegen';
+export { DatabaseError, QueryBuilderError, QueryError, DuplicateEntryError, ForeignKeyError, ConnectionError, MissingWhereError, MigrationError, WriteCancelledError } from './lib/errors';
+export type { ErrorDetails } from './lib/errors';
+export type { Field, FullTextOptions, ColumnName, ColumnReference, JsonColumn, SelectColumn, Subquery, RowInput, UpdateInput, Schema, TableRow, TableOptions, TableHooks, HookResult, QueryEvent, CastType, Paginated, CursorOptions, CursorPage, InsertOptions, InsertResult, UpsertOptions, Migration, MigratorOptions, MigrationStatus, ReferentialAction, CreateTableOptions, ColumnInfo, IndexInfo, ForeignKeyInfo, CheckInfo, TableInfo, DatabaseInfo, IntrospectOptions, TableDefinitions, SchemaStatement, SchemaDiffOptions, SyncOptions, SyncResult, TypeGenerationOptions, ModelDefinition, Relation, HasManyRelation, BelongsToRelation, ManyToManyRelation } from './@types/Field';
+export default db;
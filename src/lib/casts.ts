@@ -0,0 +1,85 @@
+import type { CastType } from '../@types/Field.js';
+import { QueryBuilderError } from './errors.js';
+
+/**
+ * Converts a value written by `insert`/`update` into something MySQL accepts:
+ * booleans become 1/0, plain objects and arrays are stored as JSON text and bigints as their decimal text.
+ * Dates, Buffers and `raw()` expressions are left to the driver, which formats dates with the pool `timezone`.
+ *
+ * @param {any} value - The value to write.
+ * @returns {any} - The value to bind.
+ *
+ * @example
+ * serializeValue(true); // 1
+ * serializeValue({ plan: 'pro' }); // '{"plan":"pro"}'
+ */
+export function serializeValue(value: any): any {
+    if (typeof value === 'boolean') {
+        return value ? 1 : 0;
+    }
+    if (typeof value === 'bigint') {
+        return value.toString();
+    }
+    if (value instanceof Date) {
+        if (Number.isNaN(value.getTime())) {
+            throw new QueryBuilderError('Invalid Date value.');
+        }
+        return value;
+    }
+    if (Array.isArray(value) || isPlainObject(value)) {
+        return JSON.stringify(value);
+    }
+    return value;
+}
+
+/**
+ * Converts the columns of a row read from the table into the types declared in `casts`.
+ * Columns missing from the row (not selected) are skipped; NULL stays null.
+ *
+ * @param {Record<string, any>} row - The row returned by the driver.
+ * @param {Record<string, CastType>} casts - The declared type of each column.
+ * @returns {Record<string, any>} - The same row, converted in place.
+ *
+ * @example
+ * hydrateRow({ active: 1, price: '9.90' }, { active: 'boolean', price: 'number' }); // { active: true, price: 9.9 }
+ */
+export function hydrateRow<R>(row: R, casts: Record<string, CastType>): R {
+    for (const [column, type] of Object.entries(casts)) {
+        if (row && Object.prototype.hasOwnProperty.call(row, column)) {
+            (row as any)[column] = castValue((row as any)[column], type);
+        }
+    }
+    return row;
+}
+
+function castValue(value: any, type: CastType): any {
+    if (value === null || value === undefined) {
+        return value;
+    }
+    switch (type) {
+        case 'boolean':
+            // BIT(1) llega como Buffer, TINYINT(1) como número
+            return Buffer.isBuffer(value) ? value.some(byte => byte !== 0) : Boolean(Number(value));
+        case 'number':
+            return Number(value);
+        case 'bigint':
+            return BigInt(value);
+        case 'date':
+            return value instanceof Date ? value : new Date(value);
+        case 'json':
+            // mysql2 ya convierte las columnas JSON; el texto viene de MariaDB o de columnas TEXT
+            return typeof value === 'string' || Buffer.isBuffer(value) ? JSON.parse(value.toString()) : value;
+        case 'string':
+            return Buffer.isBuffer(value) ? value.toString('utf8') : String(value);
+        default:
+            throw new QueryBuilderError(`Unknown cast type: ${type}.`);
+    }
+}
+
+function isPlainObject(value: any): boolean {
+    if (typeof value !== 'object' || value === null) {
+        return false;
+    }
+    const prototype = Object.getPrototypeOf(value);
+    return prototype === Object.prototype || prototype === null;
+}
@@ -0,0 +1,294 @@
+import type { ColumnInfo, DatabaseInfo, ForeignKeyInfo, IndexInfo, SchemaDiffOptions, SchemaStatement, TableInfo } from '../@types/Field.js';
+import { escapeIdentifier } from './identifiers.js';
+import { applyColumn, applyForeignKey, applyIndex } from './introspection.js';
+import { TableBuilder, normalizeType } from './schema.js';
+
+// Nombres que MySQL asigna a los CHECK sin nombre explícito
+const GENERATED_CHECK = /_chk_\d+$/;
+
+/**
+ * Compares the live database with the declared tables and returns the statements that turn one into the other:
+ * foreign keys to drop, tables to create, safe ALTERs, destructive ALTERs and tables to drop, in that order.
+ *
+ * Columns are matched by name, so a renamed column shows up as a drop plus an add.
+ * Only named CHECK constraints are compared.
+ *
+ * @param {DatabaseInfo} live - The introspected database.
+ * @param {TableBuilder[]} tables - The declared tables.
+ * @param {SchemaDiffOptions} options - Tables that must never be dropped.
+ * @returns {SchemaStatement[]} - The plan, in execution order.
+ */
+export function diffSchema(live: DatabaseInfo, tables: TableBuilder[], options: SchemaDiffOptions = {}): SchemaStatement[] {
+    const ignore = (options.ignore ?? ['kit_migrations', 'kit_migrations_lock']).map(name => name.toLowerCase());
+    const foreignDrops: SchemaStatement[] = [];
+    const creates: SchemaStatement[] = [];
+    const alters: SchemaStatement[] = [];
+    const destructive: SchemaStatement[] = [];
+
+    const pending = tables.filter(table => !findByName(live.tables, table.toTableInfo().name));
+    for (const table of sortByDependencies(pending)) {
+        const { sql, bindings } = table.toCreateSql();
+        creates.push({ table: table.tableName, type: 'create', sql, bindings, destructive: false });
+    }
+
+    for (const table of tables) {
+        const desired = table.toTableInfo();
+        const current = findByName(live.tables, desired.name);
+        if (current) {
+            const plan = diffTable(current, desired);
+            foreignDrops.push(...plan.foreignDrops);
+            alters.push(...plan.alters);
+            destructive.push(...plan.destructive);
+        }
+    }
+
+    const declared = tables.map(table => table.toTableInfo().name.toLowerCase());
+    const drops: SchemaStatement[] = live.tables
+        .filter(table => !declared.includes(table.name.toLowerCase()) && !ignore.includes(table.name.toLowerCase()))
+        .reverse()
+        .map(table => ({ table: table.name, type: 'drop', sql: `DROP TABLE ${escapeIdentifier(table.name)}`, bindings: [], destructive: true }));
+
+    return [...foreignDrops, ...creates, ...alters, ...destructive, ...drops];
+}
+
+/**
+ * Diffs a single table. Foreign keys are dropped in their own statement because MySQL
+ * does not allow dropping and re-adding a constraint with the same name in one ALTER.
+ */
+function diffTable(current: TableInfo, desired: TableInfo) {
+    const safe = new TableBuilder(desired.name);
+    const lossy = new TableBuilder(desired.name);
+    const foreign = new TableBuilder(desired.name);
+    const declaredOptions = { charset: null, collation: null };
+
+    // Columnas
+    let safeChanges = false;
+    let lossyChanges = false;
+    desired.columns.forEach((column, index) => {
+        const existing = findByName(current.columns, column.name);
+        if (!existing) {
+            const added = applyColumn(safe, column, declaredOptions);
+            index === 0 ? added.first() : added.after(desired.columns[index - 1].name);
+            safeChanges = true;
+        } else if (columnChanged(existing, column)) {
+            if (isLossy(existing, column)) {
+                applyColumn(lossy, column, declaredOptions).change();
+                lossyChanges = true;
+            } else {
+                applyColumn(safe, column, declaredOptions).change();
+                safeChanges = true;
+            }
+        }
+    });
+    for (const column of current.columns) {
+        if (!findByName(desired.columns, column.name)) {
+            lossy.dropColumn(column.name);
+            lossyChanges = true;
+        }
+    }
+
+    // Claves foráneas
+    let foreignChanges = false;
+    for (const existing of current.foreignKeys) {
+        const declared = findByName(desired.foreignKeys, existing.name);
+        if (!declared || foreignKeyChanged(existing, declared)) {
+            foreign.dropForeign(existing.name);
+            foreignChanges = true;
+        }
+    }
+    for (const declared of desired.foreignKeys) {
+        const existing = findByName(current.foreignKeys, declared.name);
+        if (!existing || foreignKeyChanged(existing, declared)) {
+            applyForeignKey(safe, declared);
+            safeChanges = true;
+        }
+    }
+
+    // Índices (se ignoran los que MySQL crea para respaldar una clave foránea)
+    const foreignNames = [...current.foreignKeys, ...desired.foreignKeys].map(key => key.name.toLowerCase());
+    for (const existing of current.indexes) {
+        const declared = findByName(desired.indexes, existing.name);
+        if (!declared && foreignNames.includes(existing.name.toLowerCase())) {
+            continue;
+        }
+        if (!declared || indexChanged(existing, declared)) {
+            // Quitar una clave PRIMARY o UNIQUE deja de proteger la unicidad de los datos
+            const builder = isKeyIndex(existing) || (declared && isKeyIndex(declared)) ? lossy : safe;
+            existing.type === 'PRIMARY' ? builder.dropPrimary() : builder.dropIndex(existing.name);
+            if (builder === lossy) {
+                lossyChanges = true;
+            } else {
+                safeChanges = true;
+            }
+        }
+    }
+    for (const declared of desired.indexes) {
+        const existing = findByName(current.indexes, declared.name);
+        if (!existing) {
+            applyIndex(safe, declared);
+            safeChanges = true;
+        } else if (indexChanged(existing, declared)) {
+            // Se vuelve a crear en la misma sentencia que la eliminación
+            const builder = isKeyIndex(existing) || isKeyIndex(declared) ? lossy : safe;
+            applyIndex(builder, declared);
+            if (builder === lossy) {
+                lossyChanges = true;
+            } else {
+                safeChanges = true;
+            }
+        }
+    }
+
+    // Restricciones CHECK con nombre
+    for (const existing of current.checks) {
+        if (!findByName(desired.checks, existing.name) && !GENERATED_CHECK.test(existing.name)) {
+            safe.dropCheck(existing.name);
+            safeChanges = true;
+        }
+    }
+    for (const declared of desired.checks) {
+        if (!findByName(current.checks, declared.name)) {
+            safe.check(declared.expression, declared.name);
+            safeChanges = true;
+        }
+    }
+
+    // Opciones de la tabla
+    if (desired.engine && !sameText(desired.engine, current.engine)) {
+        safe.engine(desired.engine);
+        safeChanges = true;
+    }
+    if (desired.charset && !sameText(desired.charset, current.charset)) {
+        safe.charset(desired.charset);
+        safeChanges = true;
+    }
+    if (desired.collation && !sameText(desired.collation, current.collation)) {
+        safe.collation(desired.collation);
+        safeChanges = true;
+    }
+    if (desired.comment && desired.comment !== current.comment) {
+        safe.comment(desired.comment);
+        safeChanges = true;
+    }
+
+    const statement = (builder: TableBuilder, destructive: boolean): SchemaStatement[] => {
+        const query = builder.toAlterSql();
+        return query ? [{ table: desired.name, type: 'alter', sql: query.sql, bindings: query.bindings, destructive }] : [];
+    };
+    return {
+        foreignDrops: foreignChanges ? statement(foreign, false) : [],
+        alters: safeChanges ? statement(safe, false) : [],
+        destructive: lossyChanges ? statement(lossy, true) : [],
+    };
+}
+
+/**
+ * Whether the index is a PRIMARY or UNIQUE key.
+ */
+function isKeyIndex(index: IndexInfo): boolean {
+    return index.type === 'PRIMARY' || index.type === 'UNIQUE';
+}
+
+/**
+ * Whether the live column differs from the declared one in any attribute that MySQL reports reliably.
+ * Display widths of integer types are ignored (MySQL 8.0.19+ no longer reports them), except `TINYINT(1)`.
+ */
+function columnChanged(live: ColumnInfo, declared: ColumnInfo): boolean {
+    const dataType = normalizeType(declared.dataType);
+    if (normalizeType(live.dataType) !== dataType) return true;
+    if (live.length !== declared.length && declared.length !== null) return true;
+    if (['decimal', 'datetime', 'timestamp', 'time', 'bit'].includes(dataType) && (live.precision ?? 0) !== (declared.precision ?? 0)) return true;
+    if (dataType === 'decimal' && (live.scale ?? 0) !== (declared.scale ?? 0)) return true;
+    if (dataType === 'tinyint' && /^tinyint\(1\)/i.test(live.type) !== /^tinyint\(1\)/i.test(declared.type)) return true;
+    if (live.unsigned !== declared.unsigned) return true;
+    if ((live.values ?? []).join('\u0000') !== (declared.values ?? []).join('\u0000')) return true;
+    if (live.nullable !== declared.nullable) return true;
+    if (live.autoIncrement !== declared.autoIncrement) return true;
+    if (!declared.autoIncrement && !sameDefault(live, declared)) return true;
+    if (normalizeExpression(live.onUpdate) !== normalizeExpression(declared.onUpdate)) return true;
+    if (live.comment !== declared.comment) return true;
+    if (declared.charset && !sameText(live.charset, declared.charset)) return true;
+    if (declared.collation && !sameText(live.collation, declared.collation)) return true;
+    return false;
+}
+
+/**
+ * Whether modifying the column can truncate or reinterpret the stored values.
+ */
+function isLossy(live: ColumnInfo, declared: ColumnInfo): boolean {
+    if (normalizeType(live.dataType) !== normalizeType(declared.dataType)) return true;
+    if (live.length !== null && declared.length !== null && declared.length < live.length) return true;
+    if (live.precision !== null && declared.precision !== null && declared.precision < live.precision) return true;
+    if (live.scale !== null && declared.scale !== null && declared.scale < live.scale) return true;
+    if (!live.unsigned && declared.unsigned) return true;
+    return (live.values ?? []).some(value => !(declared.values ?? []).includes(value));
+}
+
+function sameDefault(live: ColumnInfo, declared: ColumnInfo): boolean {
+    if (live.defaultValue === null || declared.defaultValue === null) {
+        return live.defaultValue === declared.defaultValue;
+    }
+    if (live.defaultIsExpression || declared.defaultIsExpression) {
+        return normalizeExpression(live.defaultValue) === normalizeExpression(declared.defaultValue);
+    }
+    // '0.00' y 0 son el mismo valor por defecto para un DECIMAL
+    const [a, b] = [Number(live.defaultValue), Number(declared.defaultValue)];
+    if (live.defaultValue.trim() !== '' && declared.defaultValue.trim() !== '' && Number.isFinite(a) && Number.isFinite(b)) {
+        return a === b;
+    }
+    return live.defaultValue === declared.defaultValue;
+}
+
+function indexChanged(live: IndexInfo, declared: IndexInfo): boolean {
+    return live.type !== declared.type || !sameColumns(live.columns, declared.columns);
+}
+
+function foreignKeyChanged(live: ForeignKeyInfo, declared: ForeignKeyInfo): boolean {
+    return !sameColumns(live.columns, declared.columns)
+        || !sameText(live.referencedTable, declared.referencedTable)
+        || !sameColumns(live.referencedColumns, declared.referencedColumns)
+        || normalizeAction(live.onDelete) !== normalizeAction(declared.onDelete)
+        || normalizeAction(live.onUpdate) !== normalizeAction(declared.onUpdate);
+}
+
+/**
+ * Orders new tables so that referenced tables are created first (cycles keep the declared order).
+ */
+function sortByDependencies(tables: TableBuilder[]): TableBuilder[] {
+    const sorted: TableBuilder[] = [];
+    const visiting = new Set<TableBuilder>();
+    const visit = (table: TableBuilder) => {
+        if (sorted.includes(table) || visiting.has(table)) return;
+        visiting.add(table);
+        for (const foreign of table.toTableInfo().foreignKeys) {
+            const dependency = tables.find(candidate => candidate !== table && sameText(candidate.toTableInfo().name, foreign.referencedTable));
+            if (dependency) visit(dependency);
+        }
+        sorted.push(table);
+    };
+    tables.forEach(visit);
+    return sorted;
+}
+
+function findByName<T extends { name: string }>(items: T[], name: string): T | undefined {
+    return items.find(item => sameText(item.name, name));
+}
+
+function sameText(a: string | null, b: string | null): boolean {
+    return String(a ?? '').toLowerCase() === String(b ?? '').toLowerCase();
+}
+
+function sameColumns(a: string[], b: string[]): boolean {
+    return a.length === b.length && a.every((column, index) => sameText(column, b[index]));
+}
+
+function normalizeExpression(value: string | null): string | null {
+    // MariaDB devuelve current_timestamp(), MySQL CURRENT_TIMESTAMP
+    return value === null ? null : value.trim().toUpperCase().replace(/\(\)$/, '');
+}
+
+function normalizeAction(action: string): string {
+    // InnoDB trata RESTRICT y NO ACTION igual
+    const value = String(action).toUpperCase();
+    return value === 'RESTRICT' ? 'NO ACTION' : value;
+}
@@ -0,0 +1,117 @@
+export interface ErrorDetails {
+    sql?: string;
+    bindings?: any[];
+    code?: string;
+    errno?: number;
+    sqlState?: string;
+    cause?: unknown;
+}
+
+/**
+ * Base class of every error raised by the library.
+ * Carries the SQL statement, its bindings and the mysql2 driver details when they are available.
+ */
+export class DatabaseError extends Error {
+    readonly sql?: string;
+    readonly bindings?: any[];
+    readonly code?: string;
+    readonly errno?: number;
+    readonly sqlState?: string;
+
+    constructor(message: string, details: ErrorDetails = {}) {
+        super(message, details.cause === undefined ? undefined : { cause: details.cause });
+        this.name = new.target.name;
+        this.sql = details.sql;
+        this.bindings = details.bindings;
+        this.code = details.code;
+        this.errno = details.errno;
+        this.sqlState = details.sqlState;
+    }
+}
+
+/**
+ * The builder was used with invalid arguments (an unknown operator, an invalid identifier, a malformed row...).
+ * Raised before anything is sent to the server.
+ */
+export class QueryBuilderError extends DatabaseError {}
+
+/**
+ * MySQL rejected or failed to execute a statement.
+ */
+export class QueryError extends DatabaseError {}
+
+/**
+ * A write collided with a PRIMARY or UNIQUE key (`ER_DUP_ENTRY`).
+ */
+export class DuplicateEntryError extends QueryError {}
+
+/**
+ * A write violated a foreign key constraint, either referencing a missing row or deleting a referenced one.
+ */
+export class ForeignKeyError extends QueryError {}
+
+/**
+ * The server could not be reached, refused the credentials or dropped the connection.
+ */
+export class ConnectionError extends DatabaseError {}
+
+/**
+ * An UPDATE or DELETE was attempted without any WHERE condition.
+ */
+export class MissingWhereError extends DatabaseError {}
+
+/**
+ * A migration could not be loaded or run, or the migration lock is held by another process.
+ */
+export class MigrationError extends DatabaseError {}
+
+/**
+ * A `before*` hook registered with `configureTable()` cancelled an insert, update or delete by returning `false`.
+ */
+export class WriteCancelledError extends DatabaseError {}
+
+const CONNECTION_CODES = [
+    'ECONNREFUSED', 'ECONNRESET', 'ETIMEDOUT', 'ENOTFOUND', 'EHOSTUNREACH', 'EPIPE',
+    'PROTOCOL_CONNECTION_LOST', 'PROTOCOL_SEQUENCE_TIMEOUT', 'POOL_CLOSED',
+    'ER_ACCESS_DENIED_ERROR', 'ER_CON_COUNT_ERROR', 'ER_DBACCESS_DENIED_ERROR',
+];
+
+const FOREIGN_KEY_CODES = [
+    'ER_NO_REFERENCED_ROW', 'ER_NO_REFERENCED_ROW_2', 'ER_ROW_IS_REFERENCED', 'ER_ROW_IS_REFERENCED_2',
+];
+
+/**
+ * Converts an error thrown by mysql2 into the matching library error, attaching the statement that failed.
+ * Library errors are returned unchanged.
+ *
+ * @param {any} error - The error thrown by the driver.
+ * @param {string} sql - The statement that was being executed.
+ * @param {any[]} bindings - The values bound to the statement.
+ * @returns {DatabaseError} - The library error.
+ */
+export function toDatabaseError(error: any, sql?: string, bindings?: any[]): DatabaseError {
+    if (error instanceof DatabaseError) {
+        return error;
+    }
+
+    const details: ErrorDetails = {
+        sql,
+        bindings,
+        code: error?.code,
+        errno: error?.errno,
+        sqlState: error?.sqlState,
+        cause: error,
+    };
+    const message = error?.sqlMessage || error?.message || 'An error occurred while executing the query.';
+
+    if (details.code === 'ER_DUP_ENTRY') {
+        return new DuplicateEntryError(message, details);
+    }
+    if (details.code && FOREIGN_KEY_CODES.includes(details.code)) {
+        return new ForeignKeyError(message, details);
+    }
+    if (details.code && CONNECTION_CODES.includes(details.code)) {
+        return new ConnectionError(message, details);
+    }
+    return new QueryError(message, details);
+}
@@ -0,0 +1,161 @@
+import { QueryBuilderError } from './errors.js';
+
+/**
+ * A fragment of SQL that is written into the query as-is.
+ * Created with `raw()` when an expression is intentional (functions, arithmetic, etc.)
+ * and must not be treated as an identifier or as a bound value.
+ */
+export class Raw {
+    readonly sql: string;
+    readonly bindings: any[];
+
+    constructor(sql: string, bindings: any[] = []) {
+        this.sql = sql;
+        this.bindings = bindings;
+    }
+}
+
+/**
+ * Creates a raw SQL expression that bypasses identifier quoting.
+ * Values used by the expression should be passed as bindings instead of concatenated.
+ *
+ * @param {string} sql - The SQL expression, with `?` placeholders for values.
+ * @param {any[]} bindings - The values bound to the placeholders.
+ * @returns {Raw} - The raw expression.
+ *
+ * @example
+ * const users = await db.table('users').select(['id', raw('UPPER(name) AS name')]).get();
+ * await db.table('posts').where('id', '=', 1).update({ views: raw('views + ?', [1]) });
+ */
+export function raw(sql: string, bindings: any[] = []): Raw {
+    return new Raw(sql, bindings);
+}
+
+// Caracteres permitidos en un identificador MySQL sin comillas
+const IDENTIFIER = /^[0-9A-Za-z$_\u0080-\uFFFF]+$/;
+
+/**
+ * Quotes a single identifier segment (a table, column or alias name) with backticks.
+ * Segments already wrapped in backticks are escaped so that deliberate special names still work;
+ * anything else that is not a valid unquoted identifier is rejected.
+ *
+ * @param {string} name - The identifier segment.
+ * @returns {string} - The quoted identifier.
+ *
+ * @example
+ * escapeIdentifier('users'); // `users`
+ * escapeIdentifier('`order details`'); // `order details`
+ * escapeIdentifier('name; DROP TABLE users'); // throws
+ */
+export function escapeIdentifier(name: string): string {
+    const value = String(name).trim();
+    if (value.length > 2 && value.startsWith('`') && value.endsWith('`')) {
+        return `\`${value.slice(1, -1).replace(/``/g, '`').replace(/`/g, '``')}\``;
+    }
+    if (!IDENTIFIER.test(value)) {
+        throw new QueryBuilderError(`Invalid identifier: ${name}.`);
+    }
+    return `\`${value}\``;
+}
+
+/**
+ * Quotes a column or table reference. Supports `*`, dotted paths (`table.column`, `table.*`),
+ * aliases (`column AS alias`) and JSON paths (`column->key.nested`, extracted as unquoted text).
+ * Raw expressions are returned unchanged. JSON paths are bound as `?` placeholders, so they are only
+ * accepted when a `bindings` array is given to receive them.
+ *
+ * @param {string | Raw} value - The identifier to quote.
+ * @param {any[]} bindings - Receives the JSON paths of the reference, in placeholder order.
+ * @returns {string} - The quoted SQL reference.
+ *
+ * @example
+ * wrapIdentifier('users.id'); // `users`.`id`
+ * wrapIdentifier('users.name as user_name'); // `users`.`name` AS `user_name`
+ * wrapIdentifier('orders.*'); // `orders`.*
+ * wrapIdentifier('meta->plan as plan', bindings); // JSON_UNQUOTE(JSON_EXTRACT(`meta`, ?)) AS `plan`
+ */
+export function wrapIdentifier(value: string | Raw, bindings?: any[]): string {
+    if (value instanceof Raw) {
+        return value.sql;
+    }
+    const alias = String(value).trim().match(/^(.+?)\s+as\s+(\S+)$/i);
+    if (alias) {
+        return `${wrapIdentifier(alias[1], bindings)} AS ${escapeIdentifier(alias[2])}`;
+    }
+    if (jsonArrow(String(value)) !== -1) {
+        if (!bindings) {
+            throw new QueryBuilderError(`JSON paths are not supported here: ${value}.`);
+        }
+        const json = splitJsonColumn(String(value));
+        bindings.push(json.path);
+        return `JSON_UNQUOTE(JSON_EXTRACT(${json.column}, ?))`;
+    }
+    return splitPath(String(value).trim())
+        .map(segment => segment === '*' ? '*' : escapeIdentifier(segment))
+        .join('.');
+}
+
+/**
+ * Splits a `column->path` reference into the quoted column and the MySQL JSON path, which must be bound as a value.
+ * The path uses dots for keys and `[n]` for array positions; `path` is null when there is no `->`.
+ *
+ * @param {string} value - The column reference, e.g. `meta->address.city` or `orders.items->[0].sku`.
+ * @returns {{ column: string, path: string | null }} - The quoted column and the JSON path.
+ *
+ * @example
+ * splitJsonColumn('meta->address.city'); // { column: '`meta`', path: '$."address"."city"' }
+ */
+export function splitJsonColumn(value: string): { column: string; path: string | null } {
+    const index = jsonArrow(value);
+    if (index === -1) {
+        return { column: wrapIdentifier(value), path: null };
+    }
+    // `->>` se acepta como sinónimo de `->`
+    const path = value.slice(index + 2).replace(/^>/, '').trim();
+    const segments = path.split('.').map(segment => {
+        const match = segment.trim().match(/^([^[\]]*)((?:\[\d+\])*)$/);
+        if (!match || (match[1] === '' && match[2] === '')) {
+            throw new QueryBuilderError(`Invalid JSON path: ${value}.`);
+        }
+        const key = match[1] === '' ? '' : `."${match[1].replace(/\\/g, '\\\\').replace(/"/g, '\\"')}"`;
+        return `${key}${match[2]}`;
+    });
+    return { column: wrapIdentifier(value.slice(0, index)), path: `$${segments.join('')}` };
+}
+
+/**
+ * Position of the first `->` outside backtick-quoted segments, or -1.
+ */
+function jsonArrow(value: string): number {
+    let quoted = false;
+    for (let index = 0; index < value.length - 1; index++) {
+        if (value[index] === '`') {
+            quoted = !quoted;
+        } else if (!quoted && value[index] === '-' && value[index + 1] === '>') {
+            return index;
+        }
+    }
+    return -1;
+}
+
+/**
+ * Splits a dotted path into segments, keeping dots inside backtick-quoted segments.
+ */
+function splitPath(value: string): string[] {
+    const segments: string[] = [];
+    let current = '';
+    let quoted = false;
+    for (const char of value) {
+        if (char === '`') {
+            quoted = !quoted;
+        }
+        if (char === '.' && !quoted) {
+            segments.push(current);
+            current = '';
+        } else {
+            current += char;
+        }
+    }
+    segments.push(current);
+    return segments;
+}
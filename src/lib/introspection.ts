@@ -0,0 +1,266 @@
+import type { CheckInfo, ColumnInfo, DatabaseInfo, ForeignKeyInfo, IndexInfo, IntrospectOptions, QueryExecutor, ReferentialAction, TableInfo } from '../@types/Field.js';
+import { Raw } from './identifiers.js';
+import { QueryError } from './errors.js';
+import { ColumnBuilder, TableBuilder } from './schema.js';
+
+// Tipos que aceptan longitud (CHAR(36), VARBINARY(16)...)
+const LENGTH_TYPES = ['char', 'varchar', 'binary', 'varbinary'];
+// Tipos temporales con precisión de fracciones de segundo
+const TEMPORAL_TYPES = ['datetime', 'timestamp', 'time'];
+
+/**
+ * Reads the structure of a database from `information_schema`: tables with their options,
+ * columns, indexes (with column order), foreign keys (with referential actions) and check constraints.
+ *
+ * @param {QueryExecutor} executor - The connection used to run the queries.
+ * @param {IntrospectOptions} options - The database to read (defaults to the connected one) and an optional table filter.
+ * @returns {Promise<DatabaseInfo>} - The database model.
+ *
+ * @example
+ * const { tables } = await introspect(db, { tables: ['users'] });
+ */
+export async function introspect(executor: QueryExecutor, options: IntrospectOptions = {}): Promise<DatabaseInfo> {
+    const database = options.database ?? (await executor.execute('SELECT DATABASE() AS `name`'))[0]?.name;
+    const tables = options.tables ?? [];
+    const bindings = [database, ...tables];
+    // Filtro opcional por tabla sobre la columna TABLE_NAME de cada vista
+    const filter = (column: string = 'TABLE_NAME') => tables.length > 0 ? ` AND ${column} IN (${tables.map(() => '?').join(', ')})` : '';
+
+    const tableRows: any[] = await executor.execute(
+        'SELECT TABLE_NAME AS `table`, ENGINE AS `engine`, TABLE_COLLATION AS `collation`, TABLE_COMMENT AS `comment`, ' +
+        'ROW_FORMAT AS `rowFormat`, AUTO_INCREMENT AS `autoIncrement`, CREATE_TIME AS `createdAt` ' +
+        `FROM information_schema.TABLES WHERE TABLE_SCHEMA = ? AND TABLE_TYPE = 'BASE TABLE'${filter()} ORDER BY TABLE_NAME`,
+        bindings
+    );
+    const columnRows: any[] = await executor.execute(
+        'SELECT TABLE_NAME AS `table`, COLUMN_NAME AS `name`, ORDINAL_POSITION AS `position`, COLUMN_DEFAULT AS `defaultValue`, ' +
+        'IS_NULLABLE AS `nullable`, DATA_TYPE AS `dataType`, COLUMN_TYPE AS `type`, CHARACTER_MAXIMUM_LENGTH AS `length`, ' +
+        'NUMERIC_PRECISION AS `precision`, NUMERIC_SCALE AS `scale`, DATETIME_PRECISION AS `datetimePrecision`, ' +
+        'CHARACTER_SET_NAME AS `charset`, COLLATION_NAME AS `collation`, EXTRA AS `extra`, COLUMN_COMMENT AS `comment` ' +
+        `FROM information_schema.COLUMNS WHERE TABLE_SCHEMA = ?${filter()} ORDER BY TABLE_NAME, ORDINAL_POSITION`,
+        bindings
+    );
+    const indexRows: any[] = await executor.execute(
+        'SELECT TABLE_NAME AS `table`, INDEX_NAME AS `name`, NON_UNIQUE AS `nonUnique`, INDEX_TYPE AS `indexType`, ' +
+        'COLUMN_NAME AS `column`, SEQ_IN_INDEX AS `sequence` ' +
+        `FROM information_schema.STATISTICS WHERE TABLE_SCHEMA = ?${filter()} ORDER BY TABLE_NAME, INDEX_NAME, SEQ_IN_INDEX`,
+        bindings
+    );
+    const foreignRows: any[] = await executor.execute(
+        'SELECT k.TABLE_NAME AS `table`, k.CONSTRAINT_NAME AS `name`, k.COLUMN_NAME AS `column`, ' +
+        'k.REFERENCED_TABLE_NAME AS `referencedTable`, k.REFERENCED_COLUMN_NAME AS `referencedColumn`, ' +
+        'r.DELETE_RULE AS `onDelete`, r.UPDATE_RULE AS `onUpdate` ' +
+        'FROM information_schema.KEY_COLUMN_USAGE k ' +
+        'JOIN information_schema.REFERENTIAL_CONSTRAINTS r ON r.CONSTRAINT_SCHEMA = k.CONSTRAINT_SCHEMA AND r.CONSTRAINT_NAME = k.CONSTRAINT_NAME AND r.TABLE_NAME = k.TABLE_NAME ' +
+        `WHERE k.TABLE_SCHEMA = ? AND k.REFERENCED_TABLE_NAME IS NOT NULL${filter('k.TABLE_NAME')} ` +
+        'ORDER BY k.TABLE_NAME, k.CONSTRAINT_NAME, k.ORDINAL_POSITION',
+        bindings
+    );
+    const checkRows = await readChecks(executor, bindings, filter('tc.TABLE_NAME'));
+
+    const tableInfos = tableRows.map((row): TableInfo => ({
+        name: row.table,
+        engine: row.engine ?? null,
+        charset: row.collation ? String(row.collation).split('_')[0] : null,
+        collation: row.collation ?? null,
+        comment: row.comment ?? '',
+        rowFormat: row.rowFormat ?? null,
+        autoIncrement: row.autoIncrement === null || row.autoIncrement === undefined ? null : Number(row.autoIncrement),
+        createdAt: row.createdAt ? new Date(row.createdAt) : null,
+        columns: columnRows.filter(column => column.table === row.table).map(toColumnInfo),
+        indexes: groupIndexes(indexRows.filter(index => index.table === row.table)),
+        foreignKeys: groupForeignKeys(foreignRows.filter(foreign => foreign.table === row.table)),
+        checks: checkRows.filter(check => check.table === row.table).map(({ name, expression }) => ({ name, expression })),
+    }));
+
+    return { name: database, tables: tableInfos };
+}
+
+/**
+ * CHECK constraints are only reported by MySQL 8.0.16+ and MariaDB 10.2+; older servers have no checks to read.
+ */
+async function readChecks(executor: QueryExecutor, bindings: any[], filter: string): Promise<(CheckInfo & { table: string })[]> {
+    try {
+        return await executor.execute(
+            'SELECT tc.TABLE_NAME AS `table`, cc.CONSTRAINT_NAME AS `name`, cc.CHECK_CLAUSE AS `expression` ' +
+            'FROM information_schema.TABLE_CONSTRAINTS tc ' +
+            'JOIN information_schema.CHECK_CONSTRAINTS cc ON cc.CONSTRAINT_SCHEMA = tc.CONSTRAINT_SCHEMA AND cc.CONSTRAINT_NAME = tc.CONSTRAINT_NAME ' +
+            `WHERE tc.TABLE_SCHEMA = ? AND tc.CONSTRAINT_TYPE = 'CHECK'${filter} ORDER BY tc.TABLE_NAME, cc.CONSTRAINT_NAME`,
+            bindings
+        );
+    } catch (error) {
+        if (error instanceof QueryError && ['ER_UNKNOWN_TABLE', 'ER_NO_SUCH_TABLE'].includes(error.code ?? '')) {
+            return [];
+        }
+        throw error;
+    }
+}
+
+function toColumnInfo(row: any): ColumnInfo {
+    const dataType = String(row.dataType).toLowerCase();
+    const extra = String(row.extra ?? '');
+    let defaultValue: string | null = row.defaultValue === undefined ? null : row.defaultValue;
+    let defaultIsExpression = /DEFAULT_GENERATED/i.test(extra);
+
+    // MariaDB devuelve los literales entre comillas y NULL como texto
+    if (defaultValue !== null) {
+        const quoted = String(defaultValue).match(/^'(.*)'$/s);
+        if (quoted) {
+            defaultValue = quoted[1].replace(/''/g, "'");
+        } else if (defaultValue === 'NULL') {
+            defaultValue = null;
+        } else if (/^current_timestamp/i.test(defaultValue)) {
+            defaultIsExpression = true;
+        }
+    }
+
+    const onUpdate = extra.match(/on update (\S+)/i);
+    return {
+        name: row.name,
+        position: Number(row.position),
+        type: row.type,
+        dataType,
+        length: LENGTH_TYPES.includes(dataType) && row.length !== null ? Number(row.length) : null,
+        precision: TEMPORAL_TYPES.includes(dataType)
+            ? (row.datetimePrecision === null ? null : Number(row.datetimePrecision))
+            : (row.precision === null ? null : Number(row.precision)),
+        scale: row.scale === null ? null : Number(row.scale),
+        unsigned: /unsigned/i.test(row.type),
+        values: ['enum', 'set'].includes(dataType) ? parseValues(row.type) : null,
+        nullable: row.nullable === 'YES',
+        defaultValue,
+        defaultIsExpression,
+        autoIncrement: /auto_increment/i.test(extra),
+        onUpdate: onUpdate ? onUpdate[1].toUpperCase() : null,
+        charset: row.charset ?? null,
+        collation: row.collation ?? null,
+        comment: row.comment ?? '',
+    };
+}
+
+/**
+ * Extracts the values of an `enum('a','b')` / `set('a','b')` column type.
+ */
+function parseValues(type: string): string[] {
+    return [...String(type).matchAll(/'((?:[^']|'')*)'/g)].map(match => match[1].replace(/''/g, "'"));
+}
+
+function groupIndexes(rows: any[]): IndexInfo[] {
+    const indexes = new Map<string, IndexInfo>();
+    for (const row of rows) {
+        if (!indexes.has(row.name)) {
+            const type = row.name === 'PRIMARY' ? 'PRIMARY'
+                : row.indexType === 'FULLTEXT' ? 'FULLTEXT'
+                : row.indexType === 'SPATIAL' ? 'SPATIAL'
+                : Number(row.nonUnique) === 0 ? 'UNIQUE' : 'INDEX';
+            indexes.set(row.name, { name: row.name, type, columns: [] });
+        }
+        indexes.get(row.name)!.columns.push(row.column);
+    }
+    return [...indexes.values()];
+}
+
+function groupForeignKeys(rows: any[]): ForeignKeyInfo[] {
+    const foreignKeys = new Map<string, ForeignKeyInfo>();
+    for (const row of rows) {
+        if (!foreignKeys.has(row.name)) {
+            foreignKeys.set(row.name, {
+                name: row.name,
+                columns: [],
+                referencedTable: row.referencedTable,
+                referencedColumns: [],
+                onDelete: row.onDelete,
+                onUpdate: row.onUpdate,
+            });
+        }
+        const foreign = foreignKeys.get(row.name)!;
+        foreign.columns.push(row.column);
+        foreign.referencedColumns.push(row.referencedColumn);
+    }
+    return [...foreignKeys.values()];
+}
+
+/**
+ * Rebuilds the schema builder definition of an introspected table,
+ * so that it can be compiled back into DDL (e.g. `toTableBuilder(info).toCreateSql()`).
+ *
+ * @param {TableInfo} table - The introspected table.
+ * @returns {TableBuilder} - The equivalent table definition.
+ */
+export function toTableBuilder(table: TableInfo): TableBuilder {
+    const builder = new TableBuilder(table.name);
+
+    for (const column of table.columns) {
+        applyColumn(builder, column, table);
+    }
+    for (const index of table.indexes) {
+        applyIndex(builder, index);
+    }
+    for (const foreign of table.foreignKeys) {
+        applyForeignKey(builder, foreign);
+    }
+    for (const check of table.checks) {
+        builder.check(check.expression, check.name);
+    }
+
+    if (table.engine) builder.engine(table.engine);
+    if (table.charset) builder.charset(table.charset);
+    if (table.collation) builder.collation(table.collation);
+    if (table.comment) builder.comment(table.comment);
+    return builder;
+}
+
+/**
+ * Declares a column model on a table builder. The charset and collation are only written when they differ from the table ones.
+ */
+export function applyColumn(builder: TableBuilder, info: ColumnInfo, table: Pick<TableInfo, 'charset' | 'collation'>): ColumnBuilder {
+    const column = builder.column(info.name, info.dataType, ...columnParameters(info));
+    if (info.unsigned) column.unsigned();
+    if (info.charset && info.charset !== table.charset) column.charset(info.charset);
+    if (info.collation && info.collation !== table.collation) column.collation(info.collation);
+    if (!info.nullable) column.notNull();
+    if (info.defaultValue !== null) {
+        column.default(info.defaultIsExpression ? new Raw(info.defaultValue) : info.defaultValue);
+    } else if (info.nullable && !info.autoIncrement) {
+        column.nullable();
+    }
+    if (info.onUpdate) column.useCurrentOnUpdate();
+    if (info.autoIncrement) column.autoIncrement();
+    if (info.comment) column.comment(info.comment);
+    return column;
+}
+
+/**
+ * Declares an index model on a table builder.
+ */
+export function applyIndex(builder: TableBuilder, index: IndexInfo) {
+    if (index.type === 'PRIMARY') builder.primary(index.columns);
+    else if (index.type === 'UNIQUE') builder.unique(index.columns, index.name);
+    else if (index.type === 'FULLTEXT') builder.fullText(index.columns, index.name);
+    else if (index.type === 'INDEX') builder.index(index.columns, index.name);
+}
+
+/**
+ * Declares a foreign key model on a table builder.
+ */
+export function applyForeignKey(builder: TableBuilder, foreign: ForeignKeyInfo) {
+    builder.foreign(foreign.columns, foreign.name)
+        .references(foreign.referencedColumns)
+        .on(foreign.referencedTable)
+        .onDelete(foreign.onDelete as ReferentialAction)
+        .onUpdate(foreign.onUpdate as ReferentialAction);
+}
+
+/**
+ * The type parameters that `toTableBuilder` writes after the column type.
+ */
+function columnParameters(info: ColumnInfo): any[] {
+    if (info.values) return info.values;
+    if (info.length !== null) return [info.length];
+    if (['decimal', 'numeric'].includes(info.dataType)) return [info.precision, info.scale];
+    if (TEMPORAL_TYPES.includes(info.dataType) && info.precision) return [info.precision];
+    if (info.dataType === 'bit' && info.precision) return [info.precision];
+    // TINYINT(1) se conserva porque identifica columnas booleanas
+    if (/^tinyint\(1\)/i.test(info.type)) return [1];
+    return [];
+}
@@ -0,0 +1,239 @@
+import { readdir } from 'node:fs/promises';
+import path from 'node:path';
+import { pathToFileURL } from 'node:url';
+import type { Migration, MigrationStatus, MigratorOptions } from '../@types/Field.js';
+import type { MySQL } from './mysql.js';
+import { escapeIdentifier } from './identifiers.js';
+import { DuplicateEntryError, MigrationError } from './errors.js';
+
+interface LedgerRow {
+    id: number;
+    name: string;
+    batch: number;
+    migrated_at: Date;
+}
+
+/**
+ * Runs the migration files of a directory and records them in a ledger table.
+ * Files are applied in filename order, so they should start with a timestamp
+ * (e.g. `20250101120000_create_users.ts`) and export `up(db)` and `down(db)`.
+ *
+ * Every run of `migrate()` is recorded as a batch; `rollback()` reverts whole batches.
+ * A lock row prevents two processes from migrating the same database at the same time.
+ *
+ * @example
+ * const migrator = db.migrator({ directory: './migrations' });
+ * await migrator.migrate();  // ['20250101120000_create_users']
+ * await migrator.rollback(); // ['20250101120000_create_users']
+ */
+export class Migrator {
+    private db: MySQL;
+    private directory: string;
+    private tableName: string;
+    private extensions: string[];
+
+    constructor(db: MySQL, options: MigratorOptions = {}) {
+        this.db = db;
+        this.directory = path.resolve(options.directory ?? 'migrations');
+        this.tableName = options.table ?? 'kit_migrations';
+        this.extensions = options.extensions ?? ['.js', '.mjs', '.cjs'];
+    }
+
+    /**
+     * Runs every pending migration as a new batch.
+     *
+     * @returns {Promise<string[]>} - The names of the migrations that were applied.
+     *
+     * @example
+     * const applied = await migrator.migrate();
+     */
+    async migrate(): Promise<string[]> {
+        return this.#withLock(async () => {
+            const ledger = await this.#ledger();
+            const ran = new Set(ledger.map(row => row.name));
+            const pending = (await this.#files()).filter(name => !ran.has(name));
+            if (pending.length === 0) {
+                return [];
+            }
+
+            const batch = Math.max(0, ...ledger.map(row => row.batch)) + 1;
+            for (const name of pending) {
+                const migration = await this.#load(name);
+                await this.#run(name, 'up', migration);
+                await this.db.table(this.tableName).insert([{ name, batch }], { fetch: false });
+            }
+            return pending;
+        });
+    }
+
+    /**
+     * Reverts the most recent batches, running the `down` functions in reverse order.
+     *
+     * @param {number} steps - How many batches to revert (defaults to 1).
+     * @returns {Promise<string[]>} - The names of the migrations that were reverted.
+     *
+     * @example
+     * await migrator.rollback();  // Último lote
+     * await migrator.rollback(2); // Últimos dos lotes
+     */
+    async rollback(steps: number = 1): Promise<string[]> {
+        if (!Number.isInteger(steps) || steps < 1) {
+            throw new MigrationError('The steps value must be a positive integer.');
+        }
+        return this.#withLock(async () => {
+            const ledger = await this.#ledger();
+            const batches = [...new Set(ledger.map(row => row.batch))].sort((a, b) => b - a).slice(0, steps);
+            return this.#revert(ledger.filter(row => batches.includes(row.batch)));
+        });
+    }
+
+    /**
+     * Reverts every migration that has been run.
+     *
+     * @returns {Promise<string[]>} - The names of the migrations that were reverted.
+     */
+    async reset(): Promise<string[]> {
+        return this.#withLock(async () => this.#revert(await this.#ledger()));
+    }
+
+    /**
+     * Lists the migration files together with the ledger entries.
+     * Entries whose file no longer exists are included as well.
+     *
+     * @returns {Promise<MigrationStatus[]>} - One entry per migration, in execution order.
+     *
+     * @example
+     * const status = await migrator.status();
+     * // [{ name: '20250101120000_create_users', ran: true, batch: 1, migratedAt: Date }, ...]
+     */
+    async status(): Promise<MigrationStatus[]> {
+        await this.#ensureTables();
+        const ledger = await this.#ledger();
+        const names = [...new Set([...ledger.map(row => row.name), ...await this.#files()])].sort();
+        return names.map(name => {
+            const row = ledger.find(entry => entry.name === name);
+            return {
+                name,
+                ran: row !== undefined,
+                batch: row?.batch ?? null,
+                migratedAt: row?.migrated_at ?? null,
+            };
+        });
+    }
+
+    /**
+     * Releases the migration lock left behind by a process that stopped while migrating.
+     */
+    async unlock(): Promise<void> {
+        await this.#ensureTables();
+        await this.db.execute(`DELETE FROM ${escapeIdentifier(`${this.tableName}_lock`)}`);
+    }
+
+    async #revert(rows: LedgerRow[]): Promise<string[]> {
+        const reverted: string[] = [];
+        for (const row of [...rows].sort((a, b) => b.id - a.id)) {
+            const migration = await this.#load(row.name);
+            await this.#run(row.name, 'down', migration);
+            await this.db.table(this.tableName).where('id', '=', row.id).delete();
+            reverted.push(row.name);
+        }
+        return reverted;
+    }
+
+    async #run(name: string, direction: 'up' | 'down', migration: Migration) {
+        try {
+            await migration[direction](this.db);
+        } catch (error: any) {
+            throw new MigrationError(`Migration ${name} failed while running ${direction}: ${error?.message}`, {
+                sql: error?.sql,
+                bindings: error?.bindings,
+                code: error?.code,
+                errno: error?.errno,
+                sqlState: error?.sqlState,
+                cause: error,
+            });
+        }
+    }
+
+    async #withLock<T>(callback: () => Promise<T>): Promise<T> {
+        await this.#ensureTables();
+        const lock = escapeIdentifier(`${this.tableName}_lock`);
+        try {
+            await this.db.execute(`INSERT INTO ${lock} (\`id\`, \`locked_at\`) VALUES (1, NOW())`);
+        } catch (error) {
+            if (error instanceof DuplicateEntryError) {
+                throw new MigrationError('Migrations are locked by another process. Use unlock() if a previous run was interrupted.', { cause: error });
+            }
+            throw error;
+        }
+        const release = () => this.db.execute(`DELETE FROM ${lock} WHERE \`id\` = 1`);
+        let result: T;
+        try {
+            result = await callback();
+        } catch (error) {
+            // Un fallo al liberar el bloqueo no debe ocultar el error de la migración
+            try {
+                await release();
+            } catch (unlockError) {
+                if (!(error instanceof Error)) {
+                    throw new AggregateError([error, unlockError], 'The migration failed and the lock could not be released.');
+                }
+                Object.assign(error, { unlockError });
+            }
+            throw error;
+        }
+        await release();
+        return result;
+    }
+
+    async #ensureTables() {
+        await this.db.execute(
+            `CREATE TABLE IF NOT EXISTS ${escapeIdentifier(this.tableName)} (` +
+            '`id` INT UNSIGNED AUTO_INCREMENT PRIMARY KEY, ' +
+            '`name` VARCHAR(255) NOT NULL UNIQUE, ' +
+            '`batch` INT UNSIGNED NOT NULL, ' +
+            '`migrated_at` TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP)'
+        );
+        await this.db.execute(
+            `CREATE TABLE IF NOT EXISTS ${escapeIdentifier(`${this.tableName}_lock`)} (` +
+            '`id` TINYINT UNSIGNED PRIMARY KEY, ' +
+            '`locked_at` DATETIME NOT NULL)'
+        );
+    }
+
+    async #ledger(): Promise<LedgerRow[]> {
+        return this.db.table<LedgerRow>(this.tableName).orderBy('id', 'ASC').get();
+    }
+
+    async #files(): Promise<string[]> {
+        let entries: string[];
+        try {
+            entries = await readdir(this.directory);
+        } catch (error: any) {
+            if (error?.code === 'ENOENT') {
+                return [];
+            }
+            throw error;
+        }
+        return entries
+            .filter(file => !file.endsWith('.d.ts') && this.extensions.includes(path.extname(file)))
+            .map(file => path.basename(file, path.extname(file)))
+            .sort();
+    }
+
+    async #load(name: string): Promise<Migration> {
+        const file = (await readdir(this.directory).catch(() => [] as string[]))
+            .find(entry => !entry.endsWith('.d.ts') && this.extensions.includes(path.extname(entry)) && path.basename(entry, path.extname(entry)) === name);
+        if (!file) {
+            throw new MigrationError(`Migration file not found: ${name}.`);
+        }
+
+        const module = await import(pathToFileURL(path.join(this.directory, file)).href);
+        // Exportaciones con nombre (ESM) o module.exports / export default
+        const migration = [module, module.default].find(candidate => typeof candidate?.up === 'function' && typeof candidate?.down === 'function');
+        if (!migration) {
+            throw new MigrationError(`Migration ${name} must export up(db) and down(db) functions.`);
+        }
+        return migration;
+    }
+}
@@ -0,0 +1,332 @@
+import type { BelongsToRelation, ColumnReference, HasManyRelation, ManyToManyRelation, ModelDefinition, QueryExecutor, Relation } from '../@types/Field.js';
+import type { Raw } from './identifiers.js';
+import db, { MySQL, TableQuery } from './mysql.js';
+import { QueryBuilderError } from './errors.js';
+
+// Alias de la clave del pivote en las filas de una relación manyToMany (se elimina tras agruparlas)
+const PIVOT_KEY = 'kit_pivot_key';
+
+// Modelos definidos por base de datos, para resolver las relaciones anidadas por nombre de tabla
+const registry = new WeakMap<MySQL<any>, Map<string, Model<any>>>();
+
+/**
+ * Declares a `hasMany` relation: the rows of `table` whose `foreignKey` equals the model's `localKey`.
+ *
+ * @param {string} table - The related table.
+ * @param {string} foreignKey - The column of the related table that points at the model.
+ * @param {string} localKey - The column of the model it points at (defaults to 'id').
+ * @returns {HasManyRelation} - The relation definition.
+ *
+ * @example
+ * defineModel('users', { relations: { posts: hasMany('posts', 'user_id') } });
+ */
+export function hasMany(table: string, foreignKey: string, localKey: string = 'id'): HasManyRelation {
+    return { type: 'hasMany', table, foreignKey, localKey };
+}
+
+/**
+ * Declares a `belongsTo` relation: the row of `table` whose `ownerKey` equals the model's `foreignKey`.
+ *
+ * @param {string} table - The related table.
+ * @param {string} foreignKey - The column of the model that points at the related table.
+ * @param {string} ownerKey - The column of the related table it points at (defaults to 'id').
+ * @returns {BelongsToRelation} - The relation definition.
+ *
+ * @example
+ * defineModel('posts', { relations: { author: belongsTo('users', 'user_id') } });
+ */
+export function belongsTo(table: string, foreignKey: string, ownerKey: string = 'id'): BelongsToRelation {
+    return { type: 'belongsTo', table, foreignKey, ownerKey };
+}
+
+/**
+ * Declares a many-to-many relation through a pivot table that holds a key of each side.
+ *
+ * @param {string} table - The related table.
+ * @param {string} pivot - The pivot table.
+ * @param {string} foreignPivotKey - The pivot column that points at the model.
+ * @param {string} relatedPivotKey - The pivot column that points at the related table.
+ * @param {string} localKey - The column of the model (defaults to 'id').
+ * @param {string} relatedKey - The column of the related table (defaults to 'id').
+ * @returns {ManyToManyRelation} - The relation definition.
+ *
+ * @example
+ * defineModel('users', { relations: { roles: manyToMany('roles', 'role_user', 'user_id', 'role_id') } });
+ */
+export function manyToMany(table: string, pivot: string, foreignPivotKey: string, relatedPivotKey: string, localKey: string = 'id', relatedKey: string = 'id'): ManyToManyRelation {
+    return { type: 'manyToMany', table, pivot, foreignPivotKey, relatedPivotKey, localKey, relatedKey };
+}
+
+/**
+ * Defines a model: a table together with its relations. Queries started from the model are regular
+ * `TableQuery` builders that can also eager load relations with `with()`.
+ * Nested relations (`posts.comments`) are resolved through the model defined for the related table.
+ *
+ * @param {string} tableName - The table of the model.
+ * @param {ModelDefinition} definition - The relations and, optionally, the database to query.
+ * @returns {Model} - The model.
+ *
+ * @example
+ * const User = defineModel<User>('users', {
+ *     relations: {
+ *         posts: hasMany('posts', 'user_id'),
+ *         roles: manyToMany('roles', 'role_user', 'user_id', 'role_id'),
+ *     },
+ * });
+ * defineModel('posts', { relations: { comments: hasMany('comments', 'post_id') } });
+ *
+ * const users = await User.with('posts.comments', 'roles').where('active', '=', 1).get();
+ * console.log(users[0].posts[0].comments); // [{ id: 7, post_id: 3, body: '...' }]
+ */
+export function defineModel<T = any>(tableName: string, definition: ModelDefinition = {}): Model<T> {
+    const model = new Model<T>(tableName, definition);
+    const models = registry.get(model.connection) ?? new Map<string, Model<any>>();
+    models.set(tableName, model);
+    registry.set(model.connection, models);
+    return model;
+}
+
+/**
+ * A table with relations, created with `defineModel()`.
+ */
+export class Model<T = any> {
+    readonly tableName: string;
+    readonly relations: Record<string, Relation>;
+    readonly connection: MySQL<any>;
+
+    constructor(tableName: string, definition: ModelDefinition = {}) {
+        this.tableName = tableName;
+        this.relations = definition.relations ?? {};
+        this.connection = definition.connection ?? db;
+    }
+
+    /**
+     * Starts a query on the model's table.
+     *
+     * @param {QueryExecutor} connection - Where the query (and its eager loads) runs, e.g. a transaction (defaults to the model's database).
+     * @returns {ModelQuery} - A new query builder.
+     *
+     * @example
+     * await db.transaction(async trx => {
+     *     const user = await User.query(trx).with('posts').find(1);
+     * });
+     */
+    query(connection: QueryExecutor = this.connection): ModelQuery<T> {
+        return new ModelQuery<T>(this, connection);
+    }
+
+    /**
+     * Starts a query that eager loads the given relations.
+     *
+     * @param {...string} relations - Relation names; use dots for nested relations (`posts.comments`).
+     * @returns {ModelQuery} - A new query builder.
+     *
+     * @example
+     * const users = await User.with('posts').get();
+     */
+    with(...relations: string[]): ModelQuery<T> {
+        return this.query().with(...relations);
+    }
+
+    /**
+     * Finds a row by a column value (default 'id').
+     *
+     * @param {any} value - The value to search for.
+     * @param {string} column - The column to search in.
+     * @returns {Promise<Object | null>} - The row, or null.
+     */
+    find(value: any, column: ColumnReference<T> = 'id' as ColumnReference<T>): Promise<T | null> {
+        return this.query().find(value, column);
+    }
+
+    /**
+     * Loads relations onto rows that were already fetched, with one query per relation.
+     *
+     * @param {Array<Object>} rows - Rows of the model's table.
+     * @param {...string} relations - Relation names; use dots for nested relations.
+     * @returns {Promise<Array<Object>>} - The same rows, with a property per relation.
+     *
+     * @example
+     * const users = await db.table('users').where('active', '=', 1).get();
+     * await User.load(users, 'posts');
+     */
+    async load<R>(rows: R[], ...relations: string[]): Promise<R[]> {
+        await eagerLoad(this, this.connection, rows, relations);
+        return rows;
+    }
+}
+
+/**
+ * A `TableQuery` started from a model. `with()` receives relation names to eager load after
+ * `get`, `first`, `find` and the methods built on them (`paginate`, `cursorPaginate`, `chunk`).
+ * Called with a query as second argument, `with()` still declares a common table expression.
+ */
+export class ModelQuery<T = any, R = T> extends TableQuery<T, R> {
+    #model: Model<any>;
+    #connection: QueryExecutor;
+    #relations: string[] = [];
+
+    constructor(model: Model<any>, connection: QueryExecutor) {
+        super(model.tableName, connection);
+        this.#model = model;
+        this.#connection = connection;
+    }
+
+    /**
+     * Eager loads relations of the model (the key columns of each relation must be selected).
+     *
+     * @param {...string} relations - Relation names; use dots for nested relations (`posts.comments`).
+     * @returns {ModelQuery} - Returns the current instance for method chaining.
+     *
+     * @example
+     * const posts = await Post.query().with('author', 'comments.author').orderBy('id', 'DESC').limit(10).get();
+     */
+    with(...relations: string[]): this;
+    with(name: string, query: TableQuery<any, any> | Raw, columns?: string[]): this;
+    with(...args: any[]): this {
+        if (args.length > 1 && typeof args[1] !== 'string') {
+            return super.with(args[0], args[1], args[2]);
+        }
+        this.#relations.push(...args);
+        return this;
+    }
+
+    async get(): Promise<R[]> {
+        const rows = await super.get();
+        await eagerLoad(this.#model, this.#connection, rows, this.#relations);
+        return rows;
+    }
+
+    async first(): Promise<R | null> {
+        const row = await super.first();
+        if (row) {
+            await eagerLoad(this.#model, this.#connection, [row], this.#relations);
+        }
+        return row;
+    }
+
+    async find(value: any, column?: ColumnReference<T>): Promise<R | null> {
+        const row = await super.find(value, column);
+        if (row) {
+            await eagerLoad(this.#model, this.#connection, [row], this.#relations);
+        }
+        return row;
+    }
+}
+
+/**
+ * Loads each relation with a single `whereIn` query and assigns the results to the rows,
+ * then loads the nested relations on the related rows.
+ */
+async function eagerLoad(model: Model<any>, connection: QueryExecutor, rows: any[], relations: string[]): Promise<void> {
+    if (rows.length === 0) {
+        return;
+    }
+    for (const [name, nested] of relationTree(relations)) {
+        const relation = model.relations[name];
+        if (!relation) {
+            throw new QueryBuilderError(`Relation ${name} is not defined on the ${model.tableName} model.`);
+        }
+        const related = await loadRelation(connection, relation, rows, name);
+        if (nested.length > 0) {
+            const relatedModel = registry.get(model.connection)?.get(relation.table);
+            if (!relatedModel) {
+                throw new QueryBuilderError(`No model is defined for the ${relation.table} table; define it with defineModel() to load ${name}.${nested.join(', ')}.`);
+            }
+            await eagerLoad(relatedModel, connection, related, nested);
+        }
+    }
+}
+
+/**
+ * Groups relation paths by their first segment: ['posts.comments', 'roles'] -> posts: ['comments'], roles: [].
+ */
+function relationTree(relations: string[]): Map<string, string[]> {
+    const tree = new Map<string, string[]>();
+    for (const path of relations) {
+        const [name, ...rest] = path.split('.');
+        const nested = tree.get(name) ?? [];
+        if (rest.length > 0) {
+            nested.push(rest.join('.'));
+        }
+        tree.set(name, nested);
+    }
+    return tree;
+}
+
+/**
+ * Runs the query of one relation and assigns it to every row: an array for `hasMany` and `manyToMany`,
+ * the row or null for `belongsTo`. Returns the related rows.
+ */
+async function loadRelation(connection: QueryExecutor, relation: Relation, rows: any[], name: string): Promise<any[]> {
+    switch (relation.type) {
+        case 'hasMany': {
+            const keys = distinctKeys(rows, relation.localKey, name);
+            const children = keys.length === 0 ? [] : await new TableQuery(relation.table, connection).whereIn(relation.foreignKey, keys).get();
+            const groups = groupRows(children, relation.foreignKey);
+            rows.forEach(row => row[name] = groups.get(keyOf(row[relation.localKey])) ?? []);
+            return children;
+        }
+        case 'belongsTo': {
+            const keys = distinctKeys(rows, relation.foreignKey, name);
+            const owners = keys.length === 0 ? [] : await new TableQuery(relation.table, connection).whereIn(relation.ownerKey, keys).get();
+            const byKey = new Map(owners.map(owner => [keyOf(owner[relation.ownerKey]), owner]));
+            rows.forEach(row => row[name] = isKey(row[relation.foreignKey]) ? byKey.get(keyOf(row[relation.foreignKey])) ?? null : null);
+            return owners;
+        }
+        case 'manyToMany': {
+            const keys = distinctKeys(rows, relation.localKey, name);
+            const pivotKey = `${relation.pivot}.${relation.foreignPivotKey}`;
+            const related: any[] = keys.length === 0 ? [] : await new TableQuery(relation.table, connection)
+                .select([`${relation.table}.*`, `${pivotKey} as ${PIVOT_KEY}`])
+                .join(relation.pivot, `${relation.pivot}.${relation.relatedPivotKey}`, '=', `${relation.table}.${relation.relatedKey}`)
+                .whereIn(pivotKey, keys)
+                .get();
+            const groups = groupRows(related, PIVOT_KEY);
+            related.forEach(row => delete row[PIVOT_KEY]);
+            rows.forEach(row => row[name] = groups.get(keyOf(row[relation.localKey])) ?? []);
+            return related;
+        }
+        default:
+            throw new QueryBuilderError(`Unknown relation type: ${(relation as any).type}.`);
+    }
+}
+
+/**
+ * The distinct non-null values of a key column. The column must have been selected.
+ */
+function distinctKeys(rows: any[], column: string, relation: string): any[] {
+    if (!Object.prototype.hasOwnProperty.call(rows[0], column)) {
+        throw new QueryBuilderError(`The ${column} column must be selected to load the ${relation} relation.`);
+    }
+    const keys = new Map<string, any>();
+    for (const row of rows) {
+        if (isKey(row[column]) && !keys.has(keyOf(row[column]))) {
+            keys.set(keyOf(row[column]), row[column]);
+        }
+    }
+    return [...keys.values()];
+}
+
+function groupRows(rows: any[], column: string): Map<string, any[]> {
+    const groups = new Map<string, any[]>();
+    for (const row of rows) {
+        const key = keyOf(row[column]);
+        const group = groups.get(key);
+        if (group) {
+            group.push(row);
+        } else {
+            groups.set(key, [row]);
+        }
+    }
+    return groups;
+}
+
+function isKey(value: any): boolean {
+    return value !== null && value !== undefined;
+}
+
+function keyOf(value: any): string {
+    // BIGINT puede llegar como string y el resto de enteros como number: se comparan como texto
+    return Buffer.isBuffer(value) ? value.toString('hex') : String(value);
+}
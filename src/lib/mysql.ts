@@ -1,60 +1,401 @@
+import { EventEmitter } from 'node:events';
+import { Readable } from 'node:stream';
 import dotenv from 'dotenv';
-import { Pool, createPool } from 'mysql2/promise';
-import { Condition, Field, OrderBy } from '../@types/Field.js';
+import type { Connection as CoreConnection } from 'mysql2';
+import { Pool, PoolConnection, PoolOptions, createPool } from 'mysql2/promise';
+import { ColumnName, ColumnReference, JsonColumn, CommonTableExpression, CompiledQuery, Condition, CursorOptions, CursorPage, DatabaseInfo, Field, FullTextOptions, InsertOptions, IntrospectOptions, InsertResult, MigratorOptions, OrderBy, Paginated, QueryEvent, QueryExecutor, RowInput, Schema, SelectColumn, Subquery, TableHooks, TableInfo, TableOptions, TableRow, UpdateInput, UpsertOptions, WithAggregate } from '../@types/Field.js';
+import { Raw, escapeIdentifier, splitJsonColumn, wrapIdentifier } from './identifiers.js';
+import { ConnectionError, DatabaseError, MissingWhereError, QueryBuilderError, WriteCancelledError, toDatabaseError } from './errors.js';
+import { Migrator } from './migrations.js';
+import { SchemaBuilder, TableBuilder, fieldColumn, fieldIndexes } from './schema.js';
+import { introspect } from './introspection.js';
+import { hydrateRow, serializeValue } from './casts.js';
 
 dotenv.config();
 
-const MYSQL_DATABASE = process.env.MYSQL_DATABASE;
-const MYSQL_USER = process.env.MYSQL_USER;
-const MYSQL_PASSWORD = process.env.MYSQL_PASSWORD;
-const MYSQL_HOST = process.env.MYSQL_HOST;
-const MYSQL_PORT = process.env.MYSQL_PORT;
+/**
+ * Builds the pool options from the `MYSQL_*` environment variables.
+ * Used by the default `db` export and by `new MySQL()` when no options are given.
+ * 
+ * @returns {PoolOptions} - The connection options read from the environment.
+ */
+export function envConfig(): PoolOptions {
+    return {
+        host: process.env.MYSQL_HOST,
+        user: process.env.MYSQL_USER,
+        password: process.env.MYSQL_PASSWORD,
+        database: process.env.MYSQL_DATABASE,
+        port: Number(process.env.MYSQL_PORT),
+    };
+}
+
+/**
+ * Comparison operators accepted by `where`/`orWhere`. Anything else is rejected
+ * because the operator is the only part of a condition written into the SQL as-is.
+ */
+const OPERATORS = ['=', '!=', '<>', '<', '<=', '>', '>=', '<=>', 'LIKE', 'NOT LIKE', 'REGEXP', 'NOT REGEXP'];
+
+/**
+ * Normalizes and validates a comparison operator.
+ * 
+ * @param {string | undefined} operator - The operator received by the builder (defaults to '=').
+ * @returns {string} - The upper-cased operator.
+ */
+function normalizeOperator(operator: string | undefined): string {
+    const normalized = (operator === undefined ? '=' : String(operator)).trim().toUpperCase();
+    if (!OPERATORS.includes(normalized)) {
+        throw new QueryBuilderError(`Invalid operator: ${operator}.`);
+    }
+    return normalized;
+}
+
+/**
+ * Compiles a column reference: identifiers are quoted and validated, raw expressions keep their SQL and bindings.
+ */
+function compileColumn(column: string | Raw): CompiledQuery {
+    if (column instanceof Raw) {
+        return { sql: column.sql, bindings: [...column.bindings] };
+    }
+    const bindings: any[] = [];
+    return { sql: wrapIdentifier(column, bindings), bindings };
+}
+
+/**
+ * Compiles a value: raw expressions are written inline, anything else becomes a `?` placeholder.
+ */
+function compileValue(value: any): CompiledQuery {
+    if (value instanceof Raw) {
+        return { sql: value.sql, bindings: [...value.bindings] };
+    }
+    if (value instanceof TableQuery) {
+        return compileSubquery(value);
+    }
+    return { sql: '?', bindings: [value === undefined ? null : value] };
+}
+
+/**
+ * Compiles a value written into a JSON document: objects, arrays and booleans are bound as JSON
+ * (so `true` is stored as a JSON boolean and not as 1), anything else as a plain value.
+ */
+function compileJsonValue(value: any): CompiledQuery {
+    if (typeof value === 'boolean' || Array.isArray(value) || (typeof value === 'object' && value !== null && !(value instanceof Date) && !(value instanceof Raw))) {
+        return { sql: 'CAST(? AS JSON)', bindings: [JSON.stringify(value)] };
+    }
+    return compileValue(serializeValue(value));
+}
+
+// Modificadores de MATCH ... AGAINST para cada modo de búsqueda
+const FULLTEXT_MODES: Record<string, string> = {
+    natural: 'IN NATURAL LANGUAGE MODE',
+    boolean: 'IN BOOLEAN MODE',
+    expansion: 'WITH QUERY EXPANSION',
+};
+
+/**
+ * Compiles `MATCH (columns) AGAINST (? mode)`. The columns must be exactly those of a FULLTEXT index.
+ */
+function compileMatch(columns: string | string[], term: string, options: FullTextOptions): CompiledQuery {
+    const list = Array.isArray(columns) ? columns : [columns];
+    const mode = FULLTEXT_MODES[options.mode ?? 'natural'];
+    if (list.length === 0) {
+        throw new QueryBuilderError('A full-text search requires at least one column.');
+    }
+    if (!mode) {
+        throw new QueryBuilderError(`Invalid full-text mode: ${options.mode}. Use 'natural', 'boolean' or 'expansion'.`);
+    }
+    return { sql: `MATCH (${list.map(column => wrapIdentifier(column)).join(', ')}) AGAINST (? ${mode})`, bindings: [term] };
+}
+
+/**
+ * Compiles a nested query wrapped in parentheses, keeping its bindings in placeholder order.
+ */
+function compileSubquery(query: TableQuery<any, any>): CompiledQuery {
+    const { sql, bindings } = query.buildQuery();
+    return { sql: `(${sql})`, bindings };
+}
+
+/**
+ * Compiles a list of WHERE/HAVING conditions (without the keyword).
+ * Every value is replaced by a `?` placeholder and returned in `bindings`.
+ */
+function compileConditions(conditions: Condition[]): CompiledQuery {
+    const bindings: any[] = [];
+    const sql = conditions
+        .map((cond, index) => {
+            const prefix = index === 0 ? '' : ` ${cond.type} `;
+            if (cond.isGroup && cond.query) {
+                bindings.push(...cond.query.bindings);
+                return `${prefix}(${cond.query.sql})`;
+            }
+            if (cond.operator === 'EXISTS' || cond.operator === 'NOT EXISTS') {
+                const subquery = compileSubquery(cond.value);
+                bindings.push(...subquery.bindings);
+                return `${prefix}${cond.operator} ${subquery.sql}`;
+            }
+            if ((cond.operator === 'IN' || cond.operator === 'NOT IN') && Array.isArray(cond.value) && cond.value.length === 0) {
+                // Una lista vacía no coincide con ninguna fila (IN) o con todas (NOT IN)
+                return `${prefix}${cond.operator === 'IN' ? '0 = 1' : '1 = 1'}`;
+            }
+            const column = cond.column as CompiledQuery;
+            bindings.push(...column.bindings);
+            let conditionStr = '';
+            if (cond.operator === 'BETWEEN') {
+                const [from, to] = [compileValue(cond.value[0]), compileValue(cond.value[1])];
+                conditionStr = `${column.sql} BETWEEN ${from.sql} AND ${to.sql}`;
+                bindings.push(...from.bindings, ...to.bindings);
+            } else if ((cond.operator === 'IN' || cond.operator === 'NOT IN') && !Array.isArray(cond.value)) {
+                const subquery = compileSubquery(cond.value);
+                conditionStr = `${column.sql} ${cond.operator} ${subquery.sql}`;
+                bindings.push(...subquery.bindings);
+            } else if (cond.operator === 'IN' || cond.operator === 'NOT IN') {
+                const values = cond.value.map((value: any) => compileValue(value));
+                conditionStr = `${column.sql} ${cond.operator} (${values.map((value: CompiledQuery) => value.sql).join(', ')})`;
+                bindings.push(...values.flatMap((value: CompiledQuery) => value.bindings));
+            } else if (cond.operator === 'IS NULL') {
+                conditionStr = `${column.sql} IS NULL`;
+            } else if (cond.operator === 'IS NOT NULL') {
+                conditionStr = `${column.sql} IS NOT NULL`;
+            } else if (cond.value === null || cond.value === undefined) {
+                // `= NULL` never matches in SQL, so compare against NULL with IS / IS NOT
+                conditionStr = ['!=', '<>'].includes(cond.operator as string)
+                    ? `${column.sql} IS NOT NULL`
+                    : `${column.sql} IS NULL`;
+            } else {
+                const value = compileValue(cond.value);
+                conditionStr = `${column.sql} ${cond.operator} ${value.sql}`;
+                bindings.push(...value.bindings);
+            }
+            return `${prefix}${conditionStr}`;
+        })
+        .join('');
+    return { sql, bindings };
+}
+
+/**
+ * Rolls back after `error` and returns the error to re-throw. A failed rollback is attached to an `Error`
+ * as its `rollbackError` property (its `cause` is left untouched); any other thrown value is wrapped
+ * together with the rollback failure in an `AggregateError`.
+ */
+async function rollback(trx: Transaction<any>, sql: string, error: unknown): Promise<{ error: unknown; failed: boolean }> {
+    try {
+        await trx.execute(sql);
+        return { error, failed: false };
+    } catch (rollbackError) {
+        if (!(error instanceof Error)) {
+            return { error: new AggregateError([error, rollbackError], 'The transaction failed and could not be rolled back.'), failed: true };
+        }
+        // Se conserva el primer fallo, p. ej. el de un savepoint antes que el del ROLLBACK exterior
+        if (!('rollbackError' in error)) {
+            Object.assign(error, { rollbackError });
+        }
+        return { error, failed: true };
+    }
+}
+
+/**
+ * Wraps a mysql2 row stream so that driver errors are emitted as typed errors, and reports the statement
+ * to the `query` listeners when the stream ends.
+ * Ending the iteration early destroys the source, which lets mysql2 discard the remaining rows and release the connection.
+ */
+function streamRows(source: Readable, sql: string, bindings: any[], events: EventEmitter): Readable {
+    return Readable.from((async function* () {
+        const started = performance.now();
+        let rowCount = 0;
+        let failure: DatabaseError | null = null;
+        try {
+            for await (const row of source) {
+                rowCount++;
+                yield row;
+            }
+        } catch (error) {
+            failure = toDatabaseError(error, sql, bindings);
+            throw failure;
+        } finally {
+            // También se informa cuando la iteración termina antes de tiempo
+            reportQuery(events, { sql, bindings, durationMs: performance.now() - started, rowCount: failure ? null : rowCount, error: failure });
+        }
+    })());
+}
+
+/**
+ * Runs a statement and reports it to the `query` listeners with its duration, row count and error.
+ */
+async function observeQuery(events: EventEmitter, sql: string, bindings: any[], run: () => Promise<any>): Promise<any> {
+    const started = performance.now();
+    let result: any;
+    try {
+        result = await run();
+    } catch (error) {
+        reportQuery(events, { sql, bindings, durationMs: performance.now() - started, rowCount: null, error: toDatabaseError(error, sql, bindings) });
+        throw error;
+    }
+    // SELECT devuelve las filas; las escrituras, una cabecera con affectedRows
+    const rowCount = Array.isArray(result) ? result.length : typeof result?.affectedRows === 'number' ? result.affectedRows : null;
+    reportQuery(events, { sql, bindings, durationMs: performance.now() - started, rowCount, error: null });
+    return result;
+}
+
+function reportQuery(events: EventEmitter, event: QueryEvent) {
+    events.emit('query', event);
+}
 
 /**
  * Main class to handle MySQL database connections and queries.
- * Implements the Singleton pattern to ensure a single instance of the connection pool.
+ * Each instance owns its own connection pool, so several databases can be used side by side.
+ * The optional `DB` type maps table names to row types so that `table()` returns typed queries.
  */
-class MySQL {
-    private static instance: MySQL;
+export class MySQL<DB extends Schema = any> implements QueryExecutor {
     private pool: Pool | null = null;
+    private config: PoolOptions;
+    private tables = new Map<string, TableOptions>(); // Configuración por tabla (configureTable)
+    private events = new EventEmitter(); // Oyentes de db.on(), compartidos con las transacciones
 
-    constructor() {
-        if (!MySQL.instance) {
-            try {
-                this.pool = createPool({
-                    host: MYSQL_HOST,
-                    user: MYSQL_USER,
-                    password: MYSQL_PASSWORD,
-                    database: MYSQL_DATABASE,
-                    port: Number(MYSQL_PORT),
-                });
-                MySQL.instance = this;
-            } catch (error) {
-                console.error('Error al conectar con MySQL:', error);
-            }
+    /**
+     * Schema builder to create, alter and drop tables.
+     * 
+     * @example
+     * await db.schema.createTable('users', t => {
+     *     t.id();
+     *     t.string('email', 191).notNull().unique();
+     * });
+     */
+    public readonly schema: SchemaBuilder;
+
+    /**
+     * @param {PoolOptions} config - Any mysql2 pool option (host, user, database, `connectionLimit`, `ssl`, `timezone`, `charset`, ...).
+     * Defaults to the `MYSQL_*` environment variables.
+     * 
+     * @example
+     * const analytics = new MySQL({ host: 'replica', user: 'reader', database: 'analytics', connectionLimit: 5 });
+     */
+    constructor(config: PoolOptions = envConfig()) {
+        this.config = config;
+        this.schema = new SchemaBuilder(this);
+        try {
+            this.pool = createPool(config);
+        } catch (error) {
+            console.error('Could not create the MySQL connection pool:', error);
         }
-  
-        return MySQL.instance;
+    }
+
+    /**
+     * Registers the behaviour of a table. Every query started with `table()` (also inside transactions)
+     * applies it; calling it again merges the new options into the existing ones.
+     * 
+     * @param {string} tableName - The name of the table.
+     * @param {TableOptions} options - The table behaviour (e.g. `softDeletes`).
+     * @returns {MySQL} - The same instance, for chaining.
+     * 
+     * @example
+     * db.configureTable('posts', { softDeletes: true });
+     * await db.table('posts').where('id', '=', 1).delete(); // UPDATE `posts` SET `deleted_at` = ? ...
+     * const posts = await db.table('posts').get(); // ... WHERE `posts`.`deleted_at` IS NULL
+     */
+    public configureTable(tableName: string, options: TableOptions): this {
+        this.tables.set(tableName, { ...this.tables.get(tableName), ...options });
+        return this;
+    }
+
+    /**
+     * Returns the behaviour registered for a table with `configureTable()`.
+     * 
+     * @param {string} tableName - The name of the table.
+     * @returns {TableOptions | undefined} - The registered options, if any.
+     */
+    public tableOptions(tableName: string): TableOptions | undefined {
+        return this.tables.get(tableName);
+    }
+
+    /**
+     * Registers a listener that receives every statement once it has finished: the SQL, its bindings,
+     * the duration, the number of rows and the error, if any. Statements run inside transactions and
+     * streams (reported when the stream ends) are included. Listeners run synchronously.
+     * 
+     * @param {string} event - The event name (`query`).
+     * @param {Function} listener - Receives a `QueryEvent`.
+     * @returns {MySQL} - The same instance, for chaining.
+     * 
+     * @example
+     * db.on('query', ({ sql, durationMs, error }) => {
+     *     if (error || durationMs > 500) logger.warn({ sql, durationMs, error });
+     * });
+     */
+    public on(event: 'query', listener: (event: QueryEvent) => void): this {
+        this.events.on(event, listener);
+        return this;
+    }
+
+    /**
+     * Removes a listener registered with `on()`.
+     * 
+     * @param {string} event - The event name (`query`).
+     * @param {Function} listener - The listener to remove.
+     * @returns {MySQL} - The same instance, for chaining.
+     */
+    public off(event: 'query', listener: (event: QueryEvent) => void): this {
+        this.events.off(event, listener);
+        return this;
     }
 
     /**
      * Creates and returns a new instance of `TableQuery` for the specified table.
      * This method is used to start building queries for a specific table.
      * 
+     * The row type can be given explicitly (`db.table<User>('users')`) or taken from the `DB` schema of the instance.
+     * 
      * @param {string} tableName - The name of the table to query.
      * @returns {TableQuery} - Returns a new instance of `TableQuery` for the specified table.
      * 
      * @example
-     * const usersTable = db.table('users');
+     * const usersTable = db.table<User>('users');
      * const users = await usersTable.select(['id', 'name']).get();
-     * console.log(users); // [{ id: 1, name: 'John' }, { id: 2, name: 'Jane' }]
+     * console.log(users); // [{ id: 1, name: 'John' }, { id: 2, name: 'Jane' }] typed as Pick<User, 'id' | 'name'>[]
      */
+    public table<K extends Extract<keyof DB, string>>(tableName: K): TableQuery<TableRow<DB, K>>;
+    public table<T = any>(tableName: string): TableQuery<T>;
     public table(tableName: string): TableQuery {
-        return new TableQuery(tableName, this.pool);
+        return new TableQuery(tableName, this);
+    }
+
+    /**
+     * Declares a common table expression (CTE) and returns a scope whose `table()` queries can read from it.
+     * 
+     * @param {string} name - The name of the CTE.
+     * @param {TableQuery | Raw} query - The query that defines it.
+     * @param {string[]} columns - Optional names for the columns of the CTE.
+     * @returns {WithClause} - A scope to declare more CTEs or start the query.
+     * 
+     * @example
+     * const paid = db.table('orders').where('status', '=', 'paid');
+     * const totals = await db.with('paid', paid).table('paid').select(['user_id']).sum('amount', 'total').groupBy('user_id').get();
+     */
+    public with(name: string, query: TableQuery<any, any> | Raw, columns: string[] = []): WithClause<DB> {
+        return new WithClause<DB>(this).with(name, query, columns);
+    }
+
+    /**
+     * Declares a recursive common table expression. The query is usually an anchor joined with `unionAll()`
+     * to a query that reads from the CTE itself.
+     * 
+     * @param {string} name - The name of the CTE.
+     * @param {TableQuery | Raw} query - The query that defines it.
+     * @param {string[]} columns - Optional names for the columns of the CTE.
+     * @returns {WithClause} - A scope to declare more CTEs or start the query.
+     * 
+     * @example
+     * const tree = await db.withRecursive('tree',
+     *     db.table('categories').select(['id', 'parent_id', raw('0 AS depth')]).whereNull('parent_id')
+     *         .unionAll(db.table('categories').join('tree', 'categories.parent_id', '=', 'tree.id')
+     *             .select(['categories.id', 'categories.parent_id', raw('`tree`.`depth` + 1')]))
+     * ).table('tree').orderBy('depth').get();
+     */
+    public withRecursive(name: string, query: TableQuery<any, any> | Raw, columns: string[] = []): WithClause<DB> {
+        return new WithClause<DB>(this).withRecursive(name, query, columns);
     }
 
     /**
      * Executes a SQL query on the currently set database.
+     * Failures are thrown as `QueryError` (or one of its subclasses) carrying the failing statement and the driver code.
      * 
      * @param {string} sqlQuery - The SQL query to execute.
      * @returns {Promise<{ status: string, message: string, data: any | null }>} - Returns a JSON object with the status, message, and data (if any).
@@ -65,272 +406,1132 @@ class MySQL {
      * // { status: 'success', message: 'Query executed successfully', data: [{ id: 1, name: 'John' }, { id: 2, name: 'Jane' }] }
      * 
      * @example
-     * const result = await db.query('INVALID SQL QUERY;');
-     * console.log(result); 
-     * // { status: 'error', message: 'SQL syntax error', data: null }
+     * try {
+     *     await db.query('INVALID SQL QUERY;');
+     * } catch (error) {
+     *     console.log(error.code, error.sql); // ER_PARSE_ERROR INVALID SQL QUERY;
+     * }
      */
     public async query(sqlQuery: string): Promise<{ status: string, message: string, data: any | null }> {
         // Validar que el parámetro sqlQuery sea una cadena de texto
         if (typeof sqlQuery !== 'string') {
-            throw new Error('The SQL query must be a string.');
+            throw new QueryBuilderError('The SQL query must be a string.');
         }
 
         // Dividir la consulta en comandos individuales (si hay múltiples comandos separados por ';')
         const sqlCommands = sqlQuery.split(';').filter(cmd => cmd.trim().length > 0);
 
+        // Ejecutar cada comando SQL
+        let results = [];
+        for (const command of sqlCommands) {
+            results.push(await this.execute(`${command};`));
+        }
+
+        // Devolver la respuesta en formato JSON
+        return {
+            status: 'success',
+            message: 'Query executed successfully',
+            data: results.length === 1 ? results[0] : results, // Si hay un solo comando, devolver solo ese resultado
+        };
+    }
+
+    /**
+     * Executes a single SQL statement with bound values and returns the raw mysql2 result.
+     * Every query built by `TableQuery` and `Columns` runs through this method.
+     * If the configured database does not exist yet, it is created and the statement is retried.
+     * Driver errors are converted into `QueryError`, `DuplicateEntryError`, `ForeignKeyError` or `ConnectionError`.
+     * 
+     * @param {string} sql - The SQL statement, with `?` placeholders.
+     * @param {any[]} bindings - The values bound to the placeholders.
+     * @returns {Promise<any>} - The rows for a SELECT, or the result header for a write.
+     * 
+     * @example
+     * const rows = await db.execute('SELECT * FROM users WHERE email = ?', ['john@example.com']);
+     */
+    public async execute(sql: string, bindings: any[] = []): Promise<any> {
+        return observeQuery(this.events, sql, bindings, () => this.#execute(sql, bindings));
+    }
+
+    async #execute(sql: string, bindings: any[]): Promise<any> {
+        if (!this.pool) {
+            throw new ConnectionError('The database connection pool is not available.', { sql, bindings });
+        }
         try {
-            // Verificar si el pool de conexiones está disponible
-            if (!this.pool) {
-                throw new Error('Database connection pool is not available.');
+            const [result] = await this.pool.query(sql, bindings);
+            return result;
+        } catch (error: any) {
+            if (error.code !== 'ER_BAD_DB_ERROR' || !this.config.database) {
+                throw toDatabaseError(error, sql, bindings);
             }
+        }
+        try {
+            await this.#createDatabase();
+            const [result] = await this.pool.query(sql, bindings);
+            return result;
+        } catch (error) {
+            throw toDatabaseError(error, sql, bindings);
+        }
+    }
+
+    /**
+     * Runs a SELECT and streams its rows one by one instead of buffering the whole result.
+     * The pooled connection is released when the stream ends or is destroyed.
+     * 
+     * @param {string} sql - The SQL statement, with `?` placeholders.
+     * @param {any[]} bindings - The values bound to the placeholders.
+     * @returns {Readable} - An object-mode stream of rows, also usable with `for await`.
+     * 
+     * @example
+     * for await (const row of db.stream('SELECT * FROM events WHERE type = ?', ['click'])) {
+     *     await exportRow(row);
+     * }
+     */
+    public stream(sql: string, bindings: any[] = []): Readable {
+        if (!this.pool) {
+            throw new ConnectionError('The database connection pool is not available.', { sql, bindings });
+        }
+        return streamRows(this.pool.pool.query(sql, bindings).stream(), sql, bindings, this.events);
+    }
 
-            // Ejecutar cada comando SQL
-            let results = [];
-            for (const command of sqlCommands) {
-                const query = `${command};`;
-                const [result] = await this.pool.query(query);
-                results.push(result);
+    /**
+     * Runs a callback inside a transaction on a single pooled connection.
+     * The transaction is committed when the callback resolves and rolled back when it throws;
+     * the error is re-thrown after the rollback. If the ROLLBACK itself fails, its error is attached
+     * as `rollbackError` of the re-thrown error and the connection is destroyed instead of returned to the pool.
+     * 
+     * @param {Function} callback - Receives a `Transaction`; every `trx.table()` query runs on its connection.
+     * @returns {Promise<T>} - The value returned by the callback.
+     * 
+     * @example
+     * await db.transaction(async trx => {
+     *     const [order] = await trx.table('orders').insert([{ product_id: 1, quantity: 2 }]);
+     *     await trx.table('products').where('id', '=', 1).update({ stock: raw('stock - ?', [2]) });
+     * });
+     */
+    public async transaction<T>(callback: (trx: Transaction<DB>) => Promise<T>): Promise<T> {
+        if (!this.pool) {
+            throw new ConnectionError('The database connection pool is not available.');
+        }
+        const connection = await this.pool.getConnection().catch(error => {
+            throw toDatabaseError(error);
+        });
+        const trx = new Transaction<DB>(connection, 0, this.tables, this.events);
+        let broken = false;
+        try {
+            await trx.execute('START TRANSACTION');
+            try {
+                const result = await callback(trx);
+                await trx.execute('COMMIT');
+                return result;
+            } catch (error) {
+                // Si el ROLLBACK falla, la conexión queda en un estado desconocido y no vuelve al pool
+                const rolledBack = await rollback(trx, 'ROLLBACK', error);
+                broken = rolledBack.failed;
+                throw rolledBack.error;
             }
+        } finally {
+            if (broken) {
+                connection.destroy();
+            } else {
+                connection.release();
+            }
+        }
+    }
 
-            // Devolver la respuesta en formato JSON
-            return {
-                status: 'success',
-                message: 'Query executed successfully',
-                data: results.length === 1 ? results[0] : results, // Si hay un solo comando, devolver solo ese resultado
-            };
-        } catch (error: any) {
-            // Manejar errores y devolver la respuesta en formato JSON
-            return {
-                status: 'error',
-                message: error.sqlMessage || error.message || 'An error occurred while executing the query.',
-                data: null,
-            };
+    /**
+     * Reads the structure of the database from `information_schema`.
+     * The result is a plain, serializable model; `toTableBuilder()` turns a table back into DDL.
+     * 
+     * @param {IntrospectOptions} options - The database to read (defaults to the connected one) and an optional table filter.
+     * @returns {Promise<DatabaseInfo>} - The tables with their columns, indexes, foreign keys, checks and options.
+     * 
+     * @example
+     * const schema = await db.introspect();
+     * const users = schema.tables.find(table => table.name === 'users');
+     */
+    public async introspect(options: IntrospectOptions = {}): Promise<DatabaseInfo> {
+        return introspect(this, options);
+    }
+
+    /**
+     * Creates a migration runner for this connection.
+     * 
+     * @param {MigratorOptions} options - Migrations directory, ledger table name and accepted file extensions.
+     * @returns {Migrator} - The migration runner.
+     * 
+     * @example
+     * const migrator = db.migrator({ directory: './migrations' });
+     * await migrator.migrate();
+     */
+    public migrator(options: MigratorOptions = {}): Migrator {
+        return new Migrator(this, options);
+    }
+
+    /**
+     * Closes every connection of the pool. The instance can't be used afterwards.
+     * 
+     * @example
+     * await db.end();
+     */
+    public async end() {
+        if (this.pool) {
+            await this.pool.end();
+            this.pool = null;
+        }
+    }
+
+    /**
+     * Creates the configured database and replaces the pool with one connected to it.
+     */
+    async #createDatabase() {
+        const { database, ...serverConfig } = this.config;
+        const server = createPool(serverConfig);
+        try {
+            await server.query(`CREATE DATABASE IF NOT EXISTS ${escapeIdentifier(database as string)}`);
+        } finally {
+            await server.end();
         }
+        await this.pool?.end();
+        this.pool = createPool(this.config);
     }
 }
 
 /**
- * Class to build and execute SQL queries for a specific table.
- * Supports operations like SELECT, INSERT, UPDATE, DELETE, and more.
+ * Creates a new database instance with its own connection pool.
+ * 
+ * @param {PoolOptions} config - The mysql2 pool options.
+ * @returns {MySQL} - A new `MySQL` instance.
+ * 
+ * @example
+ * const testDb = createDatabase<{ users: User }>({ ...envConfig(), database: 'app_test', timezone: 'Z' });
+ * const users = await testDb.table('users').get(); // User[]
  */
-class TableQuery {
-    private conection: Pool | null; // Tipo de conexión, puedes reemplazar `any` con el tipo adecuado
-    private nextType: string; // Almacenar el tipo para la próxima condición
-    private joins: string[]; // Almacenar los JOINs
-    private _orderBy: OrderBy[]; // Almacenar los ORDER BY
-    private _distinct: boolean; // Para controlar si se utiliza DISTINCT
-    private _groupBy: string[]; // Almacenar los GROUP BY
-    private tableName: string; // Nombre de la tabla
-    private fields: string[]; // Campos seleccionados
-    private query: string; // Consulta SQL construida
-    private conditions: Condition[]; // Condiciones WHERE
-    private limitValue: number | null = null; // Límite de resultados
-    private pageValue: number | null = null; // Límite de resultados
-
+export function createDatabase<DB extends Schema = any>(config: PoolOptions): MySQL<DB> {
+    return new MySQL<DB>(config);
+}
 
-    constructor(tableName: string, conection: Pool | null = null) {
-        this.tableName = tableName;
-        this.fields = [];
-        this.nextType = 'AND';
-        this.joins = [];
-        this.query = `SELECT * FROM \`${tableName}\``;
-        this.conditions = [];
-        this._distinct = false;
-        this._orderBy = [];
-        this._groupBy = [];
-        this.conection = conection;
+/**
+ * A transaction pinned to one connection. Created by `db.transaction()`; every query built
+ * from it runs on that connection until the transaction is committed or rolled back.
+ */
+export class Transaction<DB extends Schema = any> implements QueryExecutor {
+    private connection: PoolConnection;
+    private depth: number; // Nivel de anidamiento (0 = transacción principal)
+    private tables: Map<string, TableOptions>; // Configuración por tabla compartida con la instancia MySQL
+    private events: EventEmitter; // Oyentes de db.on() de la instancia MySQL
+
+    constructor(connection: PoolConnection, depth = 0, tables = new Map<string, TableOptions>(), events = new EventEmitter()) {
+        this.connection = connection;
+        this.depth = depth;
+        this.tables = tables;
+        this.events = events;
     }
 
-    columns(){
-        return new Columns(this.tableName, this.conection);
+    /**
+     * Returns the behaviour registered for a table with `db.configureTable()`.
+     * 
+     * @param {string} tableName - The name of the table.
+     * @returns {TableOptions | undefined} - The registered options, if any.
+     */
+    public tableOptions(tableName: string): TableOptions | undefined {
+        return this.tables.get(tableName);
     }
-    
-    async create(fields: Field[]) {
-        try {
-            const fieldsDefinition = fields.map(field => {
-                const { name, type, defaultValue, length, options, foreign } = field;
-    
-                if (!name || !type) {
-                    throw new Error('Cada campo debe tener un nombre y un tipo.');
-                }
-    
-                let fieldDefinition = (length && type != "text") ? `\`${name}\` ${type}(${length})` : `\`${name}\` ${type}`;
-
-                if(defaultValue){
-                    fieldDefinition += (['VARCHAR', 'CHAR', 'TEXT', 'ENUM', 'SET'].includes(type.toUpperCase())) 
-                    ? (defaultValue ? ` DEFAULT '${defaultValue}'` : ` DEFAULT NULL`)
-                    : (defaultValue === 'NONE' || defaultValue === null) 
-                        ? ''
-                        : (defaultValue ? ` DEFAULT ${defaultValue}` : ` DEFAULT NULL`);
-                }
-    
-                // Si tiene opciones adicionales como primary o unique
-                if (options) {
-                    if (options.includes('primary')) {
-                        fieldDefinition += ' PRIMARY KEY';
-                    }
-                    if (options.includes('autoincrement')) {
-                        fieldDefinition += ' AUTO_INCREMENT';
-                    }
-                    if (options.includes('unique')) {
-                        fieldDefinition += ' UNIQUE';
-                    }
-                }
-    
-                // Si es una llave foránea
-                if (foreign) {
-                    fieldDefinition += `, FOREIGN KEY (\`${name}\`) REFERENCES \`${foreign.table}\`(\`${foreign.column}\`)`;
-                }
-    
-                return fieldDefinition;
-            }).join(', ');
-    
-            let sqlQuery = `CREATE TABLE IF NOT EXISTS \`${this.tableName}\` (${fieldsDefinition}`;
-    
-            sqlQuery += ')';
-            await this.#get_response(sqlQuery);
-            return true;
-    
-        } catch (error) {
-            //console.error('Error al crear la tabla.', error);
-            throw error;
-        }
+
+    /**
+     * Creates a `TableQuery` that runs on the transaction connection.
+     * 
+     * @param {string} tableName - The name of the table to query.
+     * @returns {TableQuery} - A new instance of `TableQuery` bound to the transaction.
+     * 
+     * @example
+     * await db.transaction(async trx => {
+     *     await trx.table('orders').where('id', '=', 1).update({ status: 'paid' });
+     * });
+     */
+    public table<K extends Extract<keyof DB, string>>(tableName: K): TableQuery<TableRow<DB, K>>;
+    public table<T = any>(tableName: string): TableQuery<T>;
+    public table(tableName: string): TableQuery {
+        return new TableQuery(tableName, this);
     }
 
-    async drop() {
+    /**
+     * Declares a common table expression (CTE) on the transaction connection and returns a scope whose `table()` queries can read from it.
+     * 
+     * @param {string} name - The name of the CTE.
+     * @param {TableQuery | Raw} query - The query that defines it.
+     * @param {string[]} columns - Optional names for the columns of the CTE.
+     * @returns {WithClause} - A scope to declare more CTEs or start the query.
+     * 
+     * @example
+     * const paid = trx.table('orders').where('status', '=', 'paid');
+     * const totals = await trx.with('paid', paid).table('paid').select(['user_id']).sum('amount', 'total').groupBy('user_id').get();
+     */
+    public with(name: string, query: TableQuery<any, any> | Raw, columns: string[] = []): WithClause<DB> {
+        return new WithClause<DB>(this).with(name, query, columns);
+    }
+
+    /**
+     * Declares a recursive common table expression. The query is usually an anchor joined with `unionAll()`
+     * to a query that reads from the CTE itself.
+     * 
+     * @param {string} name - The name of the CTE.
+     * @param {TableQuery | Raw} query - The query that defines it.
+     * @param {string[]} columns - Optional names for the columns of the CTE.
+     * @returns {WithClause} - A scope to declare more CTEs or start the query.
+     * 
+     * @example
+     * const tree = await trx.withRecursive('tree',
+     *     trx.table('categories').select(['id', 'parent_id', raw('0 AS depth')]).whereNull('parent_id')
+     *         .unionAll(trx.table('categories').join('tree', 'categories.parent_id', '=', 'tree.id')
+     *             .select(['categories.id', 'categories.parent_id', raw('`tree`.`depth` + 1')]))
+     * ).table('tree').orderBy('depth').get();
+     */
+    public withRecursive(name: string, query: TableQuery<any, any> | Raw, columns: string[] = []): WithClause<DB> {
+        return new WithClause<DB>(this).withRecursive(name, query, columns);
+    }
+
+    /**
+     * Runs a nested transaction using a SAVEPOINT. When the callback throws, only the work done
+     * since the savepoint is rolled back and the error is re-thrown to the outer transaction,
+     * with the failure of the ROLLBACK TO SAVEPOINT as `rollbackError` if it fails too.
+     * 
+     * @param {Function} callback - Receives a `Transaction` bound to the same connection.
+     * @returns {Promise<T>} - The value returned by the callback.
+     * 
+     * @example
+     * await db.transaction(async trx => {
+     *     await trx.table('orders').insert([{ product_id: 1 }]);
+     *     await trx.transaction(async nested => {
+     *         await nested.table('audit').insert([{ action: 'order' }]);
+     *     }).catch(() => null); // the order is kept even if the audit fails
+     * });
+     */
+    public async transaction<T>(callback: (trx: Transaction<DB>) => Promise<T>): Promise<T> {
+        const savepoint = escapeIdentifier(`kit_savepoint_${this.depth + 1}`);
+        await this.execute(`SAVEPOINT ${savepoint}`);
         try {
-            const sqlQuery = `DROP TABLE IF EXISTS \`${this.tableName}\``;
+            const result = await callback(new Transaction<DB>(this.connection, this.depth + 1, this.tables, this.events));
+            await this.execute(`RELEASE SAVEPOINT ${savepoint}`);
+            return result;
+        } catch (error) {
+            throw (await rollback(this, `ROLLBACK TO SAVEPOINT ${savepoint}`, error)).error;
+        }
+    }
+
+    /**
+     * Executes a single SQL statement with bound values on the transaction connection.
+     * 
+     * @param {string} sql - The SQL statement, with `?` placeholders.
+     * @param {any[]} bindings - The values bound to the placeholders.
+     * @returns {Promise<any>} - The raw mysql2 result.
+     */
+    public async execute(sql: string, bindings: any[] = []): Promise<any> {
+        return observeQuery(this.events, sql, bindings, async () => {
+            try {
+                const [result] = await this.connection.query(sql, bindings);
+                return result;
+            } catch (error) {
+                throw toDatabaseError(error, sql, bindings);
+            }
+        });
+    }
+
+    /**
+     * Streams the rows of a SELECT on the transaction connection.
+     * The stream must be consumed (or destroyed) before running other queries in the transaction.
+     * 
+     * @param {string} sql - The SQL statement, with `?` placeholders.
+     * @param {any[]} bindings - The values bound to the placeholders.
+     * @returns {Readable} - An object-mode stream of rows, also usable with `for await`.
+     */
+    public stream(sql: string, bindings: any[] = []): Readable {
+        // La conexión interna es la de la API de callbacks, que es la que permite hacer streaming
+        const core = this.connection.connection as unknown as CoreConnection;
+        return streamRows(core.query(sql, bindings).stream(), sql, bindings, this.events);
+    }
+}
+
+/**
+ * Common table expressions declared with `db.with()` / `db.withRecursive()`.
+ * Every query started with `table()` carries the declared CTEs in its WITH clause.
+ */
+export class WithClause<DB extends Schema = any> {
+    private conection: QueryExecutor;
+    private expressions: CommonTableExpression[] = [];
+
+    constructor(conection: QueryExecutor) {
+        this.conection = conection;
+    }
+
+    /**
+     * Declares another common table expression.
+     * 
+     * @param {string} name - The name of the CTE.
+     * @param {TableQuery | Raw} query - The query that defines it.
+     * @param {string[]} columns - Optional names for the columns of the CTE.
+     * @returns {WithClause} - The same scope, for chaining.
+     */
+    with(name: string, query: TableQuery<any, any> | Raw, columns: string[] = []): this {
+        this.expressions.push({ name, columns, query, recursive: false });
+        return this;
+    }
+
+    /**
+     * Declares another recursive common table expression.
+     * 
+     * @param {string} name - The name of the CTE.
+     * @param {TableQuery | Raw} query - The query that defines it.
+     * @param {string[]} columns - Optional names for the columns of the CTE.
+     * @returns {WithClause} - The same scope, for chaining.
+     */
+    withRecursive(name: string, query: TableQuery<any, any> | Raw, columns: string[] = []): this {
+        this.expressions.push({ name, columns, query, recursive: true });
+        return this;
+    }
+
+    /**
+     * Starts a query on a table or on one of the declared CTEs.
+     * 
+     * @param {string} tableName - The table or CTE to query.
+     * @returns {TableQuery} - A new `TableQuery` that includes the WITH clause.
+     */
+    table<K extends Extract<keyof DB, string>>(tableName: K): TableQuery<TableRow<DB, K>>;
+    table<T = any>(tableName: string): TableQuery<T>;
+    table(tableName: string): TableQuery {
+        const query = new TableQuery(tableName, this.conection);
+        for (const { name, query: definition, columns, recursive } of this.expressions) {
+            recursive ? query.withRecursive(name, definition, columns) : query.with(name, definition, columns);
+        }
+        return query;
+    }
+}
+
+/**
+ * The ON clause of a join, built in the callback form of `join()`, `leftJoin()`, `rightJoin()` and `joinSub()`.
+ * `on()` compares two columns; `where()` and its variants compare a column with a bound value.
+ *
+ * @example
+ * db.table('users').leftJoin('orders as o', j => j
+ *     .on('users.id', '=', 'o.user_id')
+ *     .whereNull('o.deleted_at')
+ *     .where('o.status', 'paid'));
+ */
+export class JoinClause {
+    private conditions: Condition[] = [];
+
+    /**
+     * Adds a column comparison to the ON clause.
+     * 
+     * @param {string} column1 - The first column.
+     * @param {string} operator - The comparison operator (e.g., '=', '>', '<').
+     * @param {string} column2 - The second column.
+     * @returns {JoinClause} - The same clause, for chaining.
+     */
+    on(column1: string | Raw, operator: string | undefined, column2: string | Raw): this {
+        return this.#compare('AND', column1, operator, column2);
+    }
+
+    /**
+     * Alias of `on()`, for readability when chaining several conditions.
+     */
+    andOn(column1: string | Raw, operator: string | undefined, column2: string | Raw): this {
+        return this.#compare('AND', column1, operator, column2);
+    }
+
+    /**
+     * Adds a column comparison joined with OR.
+     */
+    orOn(column1: string | Raw, operator: string | undefined, column2: string | Raw): this {
+        return this.#compare('OR', column1, operator, column2);
+    }
+
+    /**
+     * Compares a column with a value, which is sent as a bound parameter.
+     * The operator can be omitted: `where('o.status', 'paid')` is `where('o.status', '=', 'paid')`.
+     * 
+     * @param {string} column - The column to filter by.
+     * @param {string} operator - The comparison operator, or the value when called with two arguments.
+     * @param {any} value - The value to compare against.
+     * @returns {JoinClause} - The same clause, for chaining.
+     */
+    where(column: string | Raw, value: any): this;
+    where(column: string | Raw, operator: string | undefined, value: any): this;
+    where(column: string | Raw, ...args: any[]): this {
+        return this.#where('AND', column, args);
+    }
+
+    /**
+     * Like `where()`, joined with OR.
+     */
+    orWhere(column: string | Raw, value: any): this;
+    orWhere(column: string | Raw, operator: string | undefined, value: any): this;
+    orWhere(column: string | Raw, ...args: any[]): this {
+        return this.#where('OR', column, args);
+    }
+
+    /**
+     * Adds an IN condition; the values are sent as bound parameters.
+     */
+    whereIn(column: string | Raw, values: any[] | TableQuery<any, any>): this {
+        if (values instanceof TableQuery || Array.isArray(values)) {
+            this.conditions.push({ column: compileColumn(column), operator: 'IN', value: values, type: 'AND', isGroup: false });
+        }
+        return this;
+    }
+
+    /**
+     * Adds an IS NULL condition.
+     */
+    whereNull(column: string | Raw): this {
+        this.conditions.push({ column: compileColumn(column), operator: 'IS NULL', type: 'AND', isGroup: false });
+        return this;
+    }
+
+    /**
+     * Adds an IS NOT NULL condition.
+     */
+    whereNotNull(column: string | Raw): this {
+        this.conditions.push({ column: compileColumn(column), operator: 'IS NOT NULL', type: 'AND', isGroup: false });
+        return this;
+    }
+
+    /**
+     * Compiles the conditions (without the `ON` keyword).
+     */
+    compile(): CompiledQuery {
+        return compileConditions(this.conditions);
+    }
+
+    #compare(type: string, column1: string | Raw, operator: string | undefined, column2: string | Raw): this {
+        if (column1 === undefined || column2 === undefined) {
+            throw new QueryBuilderError('A join condition requires two columns.');
+        }
+        const second = compileColumn(column2);
+        this.conditions.push({ column: compileColumn(column1), operator: normalizeOperator(operator), value: new Raw(second.sql, second.bindings), type, isGroup: false });
+        return this;
+    }
+
+    #where(type: string, column: string | Raw, args: any[]): this {
+        const [operator, value] = args.length === 1 ? ['=', args[0]] : args;
+        this.conditions.push({ column: compileColumn(column), operator: normalizeOperator(operator), value, type, isGroup: false });
+        return this;
+    }
+}
+
+/**
+ * Class to build and execute SQL queries for a specific table.
+ * Supports operations like SELECT, INSERT, UPDATE, DELETE, and more.
+ * `T` is the row type of the table (used to check column names) and `R` the type of the rows returned.
+ */
+export class TableQuery<T = any, R = T> {
+    private conection: QueryExecutor | null; // Instancia que ejecuta las consultas (base de datos o transacción)
+    private nextType: string; // Almacenar el tipo para la próxima condición
+    private joins: CompiledQuery[]; // Almacenar los JOINs (ya compilados)
+    private _orderBy: OrderBy[]; // Almacenar los ORDER BY
+    private _distinct: boolean; // Para controlar si se utiliza DISTINCT
+    private _groupBy: CompiledQuery[]; // Almacenar los GROUP BY
+    private tableName: string; // Nombre de la tabla
+    private source: CompiledQuery | null = null; // Tabla derivada (fromSub) que sustituye a la tabla en el FROM
+    private expressions: CommonTableExpression[] = []; // CTEs de la cláusula WITH
+    private unions: { query: TableQuery<any, any>; all: boolean }[] = []; // Consultas combinadas con UNION
+    private options: TableOptions; // Configuración de la tabla (db.configureTable)
+    private trashed: 'exclude' | 'include' | 'only' = 'exclude'; // Filas eliminadas lógicamente a incluir
+    private fields: CompiledQuery[]; // Campos seleccionados
+    private aggregates: CompiledQuery[]; // Funciones de agregación seleccionadas (COUNT, SUM, ...)
+    private conditions: Condition[]; // Condiciones WHERE
+    private havingConditions: Condition[]; // Condiciones HAVING
+    private limitValue: number | null = null; // Límite de resultados
+    private pageValue: number | null = null; // Límite de resultados
+
+
+    constructor(tableName: string, conection: QueryExecutor | null = null) {
+        this.tableName = tableName;
+        this.options = conection?.tableOptions?.(tableName.split(/\s+as\s+/i)[0].trim()) ?? {};
+        this.fields = [];
+        this.nextType = 'AND';
+        this.joins = [];
+        this.aggregates = [];
+        this.conditions = [];
+        this.havingConditions = [];
+        this._distinct = false;
+        this._orderBy = [];
+        this._groupBy = [];
+        this.conection = conection;
+    }
+
+    columns(){
+        return new Columns(this.tableName, this.conection);
+    }
+
+    /**
+     * Reads the full structure of the table from `information_schema`:
+     * columns (nullability, charset, comments...), indexes, foreign keys, checks and table options.
+     * 
+     * @returns {Promise<TableInfo | null>} - The table model, or `null` if the table does not exist.
+     * 
+     * @example
+     * const info = await db.table('users').describe();
+     * console.log(info?.indexes); // [{ name: 'PRIMARY', type: 'PRIMARY', columns: ['id'] }, ...]
+     */
+    async describe(): Promise<TableInfo | null> {
+        if (!this.conection) {
+            throw new ConnectionError('The database connection has not been established.');
+        }
+        const [database, table] = this.tableName.includes('.') ? this.tableName.split('.') : [undefined, this.tableName];
+        const { tables } = await introspect(this.conection, { database, tables: [table] });
+        return tables[0] ?? null;
+    }
+    
+    /**
+     * Creates the table if it does not exist yet.
+     * Accepts either a list of `Field` definitions or a callback that declares the table with the schema builder.
+     * 
+     * @param {Field[] | Function} fields - The field definitions, or a callback receiving a `TableBuilder`.
+     * @returns {Promise<boolean>} - Returns `true` if the operation was successful.
+     * 
+     * @example
+     * await db.table('users').create([
+     *     { name: 'id', type: 'INT', options: ['primary', 'autoincrement'] },
+     *     { name: 'email', type: 'VARCHAR', length: 255 }
+     * ]);
+     * 
+     * @example
+     * await db.table('users').create(t => {
+     *     t.id();
+     *     t.string('email', 191).notNull().unique();
+     * });
+     */
+    async create(fields: Field[] | ((table: TableBuilder) => void)) {
+        try {
+            const table = new TableBuilder(this.tableName);
+            if (typeof fields === 'function') {
+                fields(table);
+            } else {
+                fields.forEach(field => fieldColumn(table, field));
+                fieldIndexes(table, fields);
+            }
+            const { sql, bindings } = table.toCreateSql({ ifNotExists: true });
+            await this.#get_response(sql, bindings);
+            return true;
+    
+        } catch (error) {
+            //console.error('Error al crear la tabla.', error);
+            throw error;
+        }
+    }
+
+    async drop() {
+        try {
+            const sqlQuery = `DROP TABLE IF EXISTS ${wrapIdentifier(this.tableName)}`;
             await this.#get_response(sqlQuery);
             return true;
-        } catch (error:any) {
-            throw new Error('Error al eliminar la tabla: ' + error.message);
+        } catch (error) {
+            throw error;
+        }
+    }
+    
+    /**
+     * Specifies the columns to select in a SELECT query.
+     * 
+     * Column names are quoted automatically (`table.column` and `column AS alias` are supported);
+     * use `raw()` for expressions.
+     * 
+     * @param {Array<string | Raw>} fields - Array of column names to select. If empty, selects all columns.
+     * @returns {TableQuery} - Returns the current instance of TableQuery for method chaining.
+     * 
+     * @example
+     * const users = await db.table('users').select(['id', 'name as full_name']).get();
+     * console.log(users); // [{ id: 1, full_name: 'John' }, { id: 2, full_name: 'Jane' }]
+     */
+    select<K extends ColumnName<T>>(fields: K[]): TableQuery<T, Pick<T, K>>;
+    select(fields?: Array<SelectColumn<T> | Raw>): TableQuery<T, any>;
+    select(fields: Array<string | Raw> = []): TableQuery<T, any> {
+        if (fields.length > 0) {
+            this.fields = fields.map(field => compileColumn(field));
+        }
+        return this as TableQuery<T, any>;
+    }
+
+    /**
+     * Adds a subquery to the selected columns under the given alias.
+     * Call it after `select()`, which replaces the column list.
+     * 
+     * @param {string} alias - The name of the resulting column.
+     * @param {Subquery} query - A `TableQuery` or a callback that builds one on the same table.
+     * @returns {TableQuery} - Returns the current instance of TableQuery for method chaining.
+     * 
+     * @example
+     * const users = await db.table('users')
+     *     .select(['id', 'name'])
+     *     .selectSub('orders_count', db.table('orders').count('*', 'total').whereColumn('orders.user_id', '=', 'users.id'))
+     *     .get();
+     * console.log(users); // [{ id: 1, name: 'John', orders_count: 3 }]
+     */
+    selectSub(alias: string, query: Subquery): TableQuery<T, any> {
+        const subquery = compileSubquery(this.#subquery(query));
+        this.fields.push({ sql: `${subquery.sql} AS ${escapeIdentifier(alias)}`, bindings: subquery.bindings });
+        return this as TableQuery<T, any>;
+    }
+
+    /**
+     * Adds the full-text relevance score (`MATCH ... AGAINST`) to the selected columns under the given alias.
+     * Call it after `select()`, which replaces the column list.
+     * 
+     * @param {string} alias - The name of the resulting column.
+     * @param {string | string[]} columns - The columns of the FULLTEXT index.
+     * @param {string} term - The search term.
+     * @param {FullTextOptions} options - The search mode (`natural`, `boolean` or `expansion`).
+     * @returns {TableQuery} - Returns the current instance of TableQuery for method chaining.
+     * 
+     * @example
+     * const posts = await db.table('posts')
+     *     .select(['id', 'title'])
+     *     .selectFullTextScore('score', ['title', 'body'], 'mysql')
+     *     .whereFullText(['title', 'body'], 'mysql')
+     *     .orderByFullText(['title', 'body'], 'mysql')
+     *     .get();
+     */
+    selectFullTextScore(alias: string, columns: ColumnReference<T> | ColumnReference<T>[], term: string, options: FullTextOptions = {}): TableQuery<T, any> {
+        const match = compileMatch(columns, term, options);
+        this.fields.push({ sql: `${match.sql} AS ${escapeIdentifier(alias)}`, bindings: match.bindings });
+        return this as TableQuery<T, any>;
+    }
+
+    /**
+     * Reads from a subquery (a derived table) instead of the table itself.
+     * Columns of the outer query refer to the columns selected by the subquery through the alias.
+     * 
+     * @param {Subquery} query - A `TableQuery` or a callback that builds one on the same table.
+     * @param {string} alias - The name of the derived table.
+     * @returns {TableQuery} - Returns the current instance of TableQuery for method chaining.
+     * 
+     * @example
+     * const totals = db.table('orders').select(['user_id']).sum('amount', 'spent').groupBy('user_id');
+     * const vips = await db.table('orders').fromSub(totals, 'totals').where('totals.spent', '>', 1000).get();
+     * // SELECT * FROM (SELECT `user_id`, SUM(`amount`) AS `spent` FROM `orders` GROUP BY `user_id`) AS `totals` WHERE `totals`.`spent` > ?
+     */
+    fromSub(query: Subquery, alias: string): TableQuery<T, any> {
+        this.source = this.#derivedTable(query, alias);
+        return this as TableQuery<T, any>;
+    }
+
+    /**
+     * Compiles `(subquery) AS alias` for FROM and JOIN.
+     */
+    #derivedTable(query: Subquery, alias: string): CompiledQuery {
+        const subquery = compileSubquery(this.#subquery(query));
+        return { sql: `${subquery.sql} AS ${escapeIdentifier(alias)}`, bindings: subquery.bindings };
+    }
+
+    /**
+     * Resolves a subquery argument: callbacks receive a fresh query on the same table.
+     */
+    #subquery(query: Subquery): TableQuery<any, any> {
+        if (query instanceof TableQuery) {
+            return query;
+        }
+        if (typeof query !== 'function') {
+            throw new QueryBuilderError('A subquery must be a TableQuery or a callback.');
         }
+        const subquery = new TableQuery(this.tableName, this.conection);
+        query(subquery);
+        return subquery;
+    }
+
+    /**
+     * Combines the results with another query using UNION (duplicates removed).
+     * `orderBy()`, `limit()` and `page()` of this query apply to the combined result.
+     * 
+     * @param {Subquery} query - A `TableQuery` or a callback that builds one on the same table.
+     * @returns {TableQuery} - Returns the current instance of TableQuery for method chaining.
+     * 
+     * @example
+     * const contacts = await db.table('customers').select(['email'])
+     *     .union(db.table('suppliers').select(['email']))
+     *     .orderBy('email')
+     *     .get();
+     * // SELECT `email` FROM `customers` UNION SELECT `email` FROM `suppliers` ORDER BY `email` ASC
+     */
+    union(query: Subquery) {
+        this.unions.push({ query: this.#subquery(query), all: false });
+        return this;
+    }
+
+    /**
+     * Combines the results with another query using UNION ALL (duplicates kept).
+     * 
+     * @param {Subquery} query - A `TableQuery` or a callback that builds one on the same table.
+     * @returns {TableQuery} - Returns the current instance of TableQuery for method chaining.
+     * 
+     * @example
+     * const events = await db.table('logins').select(['user_id', 'created_at'])
+     *     .unionAll(db.table('purchases').select(['user_id', 'created_at']))
+     *     .orderBy('created_at', 'DESC')
+     *     .limit(20)
+     *     .get();
+     */
+    unionAll(query: Subquery) {
+        this.unions.push({ query: this.#subquery(query), all: true });
+        return this;
+    }
+
+    /**
+     * Adds a common table expression to the WITH clause of the query.
+     * 
+     * @param {string} name - The name of the CTE.
+     * @param {TableQuery | Raw} query - The query that defines it.
+     * @param {string[]} columns - Optional names for the columns of the CTE.
+     * @returns {TableQuery} - Returns the current instance of TableQuery for method chaining.
+     * 
+     * @example
+     * const recent = await db.table('recent')
+     *     .with('recent', db.table('orders').where('created_at', '>', since))
+     *     .count('*', 'total')
+     *     .first();
+     */
+    with(name: string, query: TableQuery<any, any> | Raw, columns: string[] = []) {
+        this.expressions.push({ name, columns, query, recursive: false });
+        return this;
+    }
+
+    /**
+     * Adds a recursive common table expression to the WITH clause of the query.
+     * 
+     * @param {string} name - The name of the CTE.
+     * @param {TableQuery | Raw} query - The query that defines it, usually an anchor combined with `unionAll()`.
+     * @param {string[]} columns - Optional names for the columns of the CTE.
+     * @returns {TableQuery} - Returns the current instance of TableQuery for method chaining.
+     */
+    withRecursive(name: string, query: TableQuery<any, any> | Raw, columns: string[] = []) {
+        this.expressions.push({ name, columns, query, recursive: true });
+        return this;
+    }
+
+    /**
+     * Compiles the WITH clause (followed by a space), or an empty string when no CTE was declared.
+     */
+    #buildWith(): CompiledQuery {
+        if (this.expressions.length === 0) {
+            return { sql: '', bindings: [] };
+        }
+        const bindings: any[] = [];
+        const definitions = this.expressions.map(({ name, columns, query }) => {
+            const compiled = query instanceof Raw ? { sql: query.sql, bindings: query.bindings } : query.buildQuery();
+            bindings.push(...compiled.bindings);
+            const columnList = columns.length > 0 ? ` (${columns.map(column => escapeIdentifier(column)).join(', ')})` : '';
+            return `${escapeIdentifier(name)}${columnList} AS (${compiled.sql})`;
+        });
+        // RECURSIVE se escribe una sola vez y habilita la recursión en todas las CTEs
+        const recursive = this.expressions.some(expression => expression.recursive) ? 'RECURSIVE ' : '';
+        return { sql: `WITH ${recursive}${definitions.join(', ')} `, bindings };
+    }
+
+    /**
+     * Compiles the SELECT with its body and the queries combined with UNION, without ORDER BY or LIMIT.
+     * Combined queries are parenthesized only when they carry their own ordering, limit, unions or CTEs.
+     */
+    #buildCombined(): CompiledQuery {
+        const select = this.#buildSelect();
+        const body = this.#buildBody();
+        let sql = `${select.sql}${body.sql}`;
+        const bindings = [...select.bindings, ...body.bindings];
+        for (const { query, all } of this.unions) {
+            const compiled = query.buildQuery();
+            const nested = query._orderBy.length > 0 || query.limitValue !== null || query.unions.length > 0 || query.expressions.length > 0;
+            sql += ` ${all ? 'UNION ALL' : 'UNION'} ${nested ? `(${compiled.sql})` : compiled.sql}`;
+            bindings.push(...compiled.bindings);
+        }
+        return { sql, bindings };
+    }
+
+    /**
+     * Compiles the FROM target: the quoted table or the derived table set by `fromSub()`.
+     */
+    #buildFrom(): CompiledQuery {
+        return this.source ?? { sql: wrapIdentifier(this.tableName), bindings: [] };
+    }
+
+    /**
+     * Adds a WHERE condition to the query.
+     * 
+     * @param {string | Raw} column - The column to filter by.
+     * @param {string} operator - The comparison operator (e.g., '=', '>', '<').
+     * @param {any} value - The value to compare against.
+     * @returns {TableQuery} - Returns the current instance of TableQuery for method chaining.
+     * 
+     * @example
+     * const users = await db.table('users').where('age', '>', 25).get();
+     * console.log(users); // [{ id: 1, name: 'John', age: 30 }]
+     */
+    where(column: ColumnReference<T> | Raw, operator: string | undefined, value: any) {
+        operator = normalizeOperator(operator);
+        this.conditions.push({ column: compileColumn(column), operator, value, type: this.nextType, isGroup: false });
+        this.nextType = 'AND';
+        return this;
+    }
+
+    /**
+     * Adds an OR WHERE condition to the query.
+     * 
+     * @param {string | Raw} column - The column to filter by.
+     * @param {string} operator - The comparison operator (e.g., '=', '>', '<').
+     * @param {any} value - The value to compare against.
+     * @returns {TableQuery} - Returns the current instance of TableQuery for method chaining.
+     * 
+     * @example
+     * const users = await db.table('users').where('age', '>', 25).orWhere('name', '=', 'Jane').get();
+     * console.log(users); // [{ id: 1, name: 'John', age: 30 }, { id: 2, name: 'Jane', age: 25 }]
+     */
+    orWhere(column: ColumnReference<T> | Raw, operator: string | undefined, value: any) {
+        operator = normalizeOperator(operator);
+        this.conditions.push({ column: compileColumn(column), operator, value, type: 'OR', isGroup: false });
+        return this;
+    }
+
+    /**
+     * Adds a grouped WHERE condition to the query.
+     * 
+     * @param {Function} callback - A callback function that receives a new TableQuery instance to build the grouped conditions.
+     * @returns {TableQuery} - Returns the current instance of TableQuery for method chaining.
+     * 
+     * @example
+     * const users = await db.table('users').whereGroup(query => {
+     *     query.where('age', '>', 25).orWhere('name', '=', 'Jane');
+     * }).get();
+     * console.log(users); // [{ id: 1, name: 'John', age: 30 }, { id: 2, name: 'Jane', age: 25 }]
+     */
+    whereGroup(callback: (query: TableQuery<T>) => void) {
+        const groupQuery = new TableQuery<T>(this.tableName);
+        callback(groupQuery);
+        const groupConditions = groupQuery.buildConditions(); // Construir solo las condiciones sin SELECT ni WHERE
+        this.conditions.push({ query: groupConditions, type: this.nextType, isGroup: true });
+        this.nextType = 'AND'; // Reiniciar el tipo después de agregar un grupo
+        return this;
+    }
+    
+    or() {
+        this.nextType = 'OR';
+        return this;
+    }
+
+    and() {
+        this.nextType = 'AND';
+        return this;
+    }
+
+    /**
+     * Adds a WHERE BETWEEN condition to the query.
+     * 
+     * @param {string} column - The column to filter by.
+     * @param {Array<any>} values - An array with two values representing the range.
+     * @returns {TableQuery} - Returns the current instance of TableQuery for method chaining.
+     * 
+     * @example
+     * const users = await db.table('users').whereBetween('age', [20, 30]).get();
+     * console.log(users); // [{ id: 1, name: 'John', age: 30 }, { id: 2, name: 'Jane', age: 25 }]
+     */
+    whereBetween(column: ColumnReference<T> | Raw, [value1, value2]:any) {
+        if (Array.isArray([value1, value2]) && value1 !== undefined && value2 !== undefined) {
+            this.conditions.push({ column: compileColumn(column), operator: 'BETWEEN', value: [value1, value2], type: this.nextType, isGroup: false });
+            this.nextType = 'AND'; // Reiniciar el tipo después de agregar una condición
+        }
+        return this;
+    }
+
+    /**
+     * Adds a WHERE IN condition to the query.
+     * The values can be an array or a subquery (a `TableQuery` or a callback that builds one on the same table).
+     * 
+     * @param {string} column - The column to filter by.
+     * @param {Array<any> | Subquery} values - An array of values to match, or a subquery that selects them. An empty array matches no rows.
+     * @returns {TableQuery} - Returns the current instance of TableQuery for method chaining.
+     * 
+     * @example
+     * const users = await db.table('users').whereIn('id', [1, 2]).get();
+     * console.log(users); // [{ id: 1, name: 'John' }, { id: 2, name: 'Jane' }]
+     * 
+     * const buyers = await db.table('users').whereIn('id', db.table('orders').select(['user_id'])).get();
+     * // SELECT * FROM `users` WHERE `id` IN (SELECT `user_id` FROM `orders`)
+     */
+    whereIn(column: ColumnReference<T> | Raw, values: any[] | Subquery) {
+        return this.#whereIn(column, values, 'IN');
+    }
+
+    /**
+     * Adds a WHERE NOT IN condition to the query.
+     * 
+     * @param {string} column - The column to filter by.
+     * @param {Array<any> | Subquery} values - An array of values to exclude, or a subquery that selects them. An empty array excludes nothing.
+     * @returns {TableQuery} - Returns the current instance of TableQuery for method chaining.
+     * 
+     * @example
+     * const users = await db.table('users').whereNotIn('id', q => q.select(['manager_id']).whereNotNull('manager_id')).get();
+     */
+    whereNotIn(column: ColumnReference<T> | Raw, values: any[] | Subquery) {
+        return this.#whereIn(column, values, 'NOT IN');
+    }
+
+    #whereIn(column: ColumnReference<T> | Raw, values: any, operator: 'IN' | 'NOT IN') {
+        if (Array.isArray(values)) {
+            this.conditions.push({ column: compileColumn(column), operator, value: values, type: this.nextType, isGroup: false });
+            this.nextType = 'AND'; // Reiniciar el tipo después de agregar una condición
+        } else if (values instanceof TableQuery || typeof values === 'function') {
+            this.conditions.push({ column: compileColumn(column), operator, value: this.#subquery(values), type: this.nextType, isGroup: false });
+            this.nextType = 'AND';
+        }
+        return this;
+    }
+
+    /**
+     * Adds a WHERE EXISTS condition to the query.
+     * Use `whereColumn()` inside the subquery to correlate it with the outer table.
+     * 
+     * @param {Subquery} query - A `TableQuery` or a callback that builds one on the same table.
+     * @returns {TableQuery} - Returns the current instance of TableQuery for method chaining.
+     * 
+     * @example
+     * const users = await db.table('users')
+     *     .whereExists(db.table('orders').whereColumn('orders.user_id', '=', 'users.id'))
+     *     .get();
+     * // SELECT * FROM `users` WHERE EXISTS (SELECT * FROM `orders` WHERE `orders`.`user_id` = `users`.`id`)
+     */
+    whereExists(query: Subquery) {
+        this.conditions.push({ operator: 'EXISTS', value: this.#subquery(query), type: this.nextType, isGroup: false });
+        this.nextType = 'AND';
+        return this;
     }
-    
+
     /**
-     * Specifies the columns to select in a SELECT query.
+     * Adds a WHERE NOT EXISTS condition to the query.
      * 
-     * @param {string[]} fields - Array of column names to select. If empty, selects all columns.
+     * @param {Subquery} query - A `TableQuery` or a callback that builds one on the same table.
      * @returns {TableQuery} - Returns the current instance of TableQuery for method chaining.
      * 
      * @example
-     * const users = await db.table('users').select(['id', 'name']).get();
-     * console.log(users); // [{ id: 1, name: 'John' }, { id: 2, name: 'Jane' }]
+     * const withoutOrders = await db.table('users')
+     *     .whereNotExists(db.table('orders').whereColumn('orders.user_id', '=', 'users.id'))
+     *     .get();
      */
-    select(fields: string[] = []) {
-        if (fields.length > 0) {
-            this.query = `SELECT ${this._distinct ? 'DISTINCT ' : ''}${fields.join(', ')} FROM \`${this.tableName}\``;
-        }
+    whereNotExists(query: Subquery) {
+        this.conditions.push({ operator: 'NOT EXISTS', value: this.#subquery(query), type: this.nextType, isGroup: false });
+        this.nextType = 'AND';
         return this;
     }
 
     /**
-     * Adds a WHERE condition to the query.
+     * Adds a WHERE condition that compares two columns.
      * 
-     * @param {string} column - The column to filter by.
+     * @param {string} first - The first column.
      * @param {string} operator - The comparison operator (e.g., '=', '>', '<').
-     * @param {any} value - The value to compare against.
+     * @param {string} second - The second column.
      * @returns {TableQuery} - Returns the current instance of TableQuery for method chaining.
      * 
      * @example
-     * const users = await db.table('users').where('age', '>', 25).get();
-     * console.log(users); // [{ id: 1, name: 'John', age: 30 }]
+     * const edited = await db.table('posts').whereColumn('updated_at', '>', 'created_at').get();
      */
-    where(column: string, operator: string | undefined, value: any) {
-        if (operator === undefined) {
-            operator = "=";
-        }
-        this.conditions.push({ column, operator, value, type: this.nextType, isGroup: false });
+    whereColumn(first: ColumnReference<T> | Raw, operator: string | undefined, second: string | Raw) {
+        operator = normalizeOperator(operator);
+        const compiled = compileColumn(second);
+        this.conditions.push({ column: compileColumn(first), operator, value: new Raw(compiled.sql, compiled.bindings), type: this.nextType, isGroup: false });
         this.nextType = 'AND';
         return this;
     }
 
     /**
-     * Adds an OR WHERE condition to the query.
+     * Adds a full-text search condition (`MATCH ... AGAINST`). The columns must be exactly those of a FULLTEXT index.
      * 
-     * @param {string} column - The column to filter by.
-     * @param {string} operator - The comparison operator (e.g., '=', '>', '<').
-     * @param {any} value - The value to compare against.
+     * @param {string | string[]} columns - The columns of the FULLTEXT index.
+     * @param {string} term - The search term; in `boolean` mode it may use operators such as `+`, `-` and `*`.
+     * @param {FullTextOptions} options - The search mode (`natural`, `boolean` or `expansion`).
      * @returns {TableQuery} - Returns the current instance of TableQuery for method chaining.
      * 
      * @example
-     * const users = await db.table('users').where('age', '>', 25).orWhere('name', '=', 'Jane').get();
-     * console.log(users); // [{ id: 1, name: 'John', age: 30 }, { id: 2, name: 'Jane', age: 25 }]
+     * const posts = await db.table('posts').whereFullText(['title', 'body'], '+mysql -oracle', { mode: 'boolean' }).get();
+     * // SELECT * FROM `posts` WHERE MATCH (`title`, `body`) AGAINST (? IN BOOLEAN MODE)
      */
-    orWhere(column: string, operator: string | undefined, value: any) {
-        if (operator === undefined) {
-            operator = "=";
-        }
-        this.conditions.push({ column, operator, value, type: 'OR', isGroup: false });
+    whereFullText(columns: ColumnReference<T> | ColumnReference<T>[], term: string, options: FullTextOptions = {}) {
+        this.conditions.push({ query: compileMatch(columns, term, options), type: this.nextType, isGroup: true });
+        this.nextType = 'AND';
         return this;
     }
 
     /**
-     * Adds a grouped WHERE condition to the query.
+     * Adds a WHERE condition on a key of a JSON column. The key is compared as unquoted text,
+     * except for booleans, which are compared as JSON booleans.
      * 
-     * @param {Function} callback - A callback function that receives a new TableQuery instance to build the grouped conditions.
+     * @param {string} column - The JSON path, e.g. `meta->address.city`.
+     * @param {string} operator - The comparison operator (e.g., '=', '>', '<').
+     * @param {any} value - The value to compare against.
      * @returns {TableQuery} - Returns the current instance of TableQuery for method chaining.
      * 
      * @example
-     * const users = await db.table('users').whereGroup(query => {
-     *     query.where('age', '>', 25).orWhere('name', '=', 'Jane');
-     * }).get();
-     * console.log(users); // [{ id: 1, name: 'John', age: 30 }, { id: 2, name: 'Jane', age: 25 }]
+     * const users = await db.table('users').whereJson('meta->address.city', '=', 'Lima').get();
+     * const admins = await db.table('users').whereJson('meta->admin', '=', true).get();
      */
-    whereGroup(callback:any) {
-        const groupQuery = new TableQuery(this.tableName);
-        callback(groupQuery);
-        const groupConditions = groupQuery.buildConditions(); // Construir solo las condiciones sin SELECT ni WHERE
-        this.conditions.push({ query: groupConditions, type: this.nextType, isGroup: true });
-        this.nextType = 'AND'; // Reiniciar el tipo después de agregar un grupo
-        return this;
-    }
-    
-    or() {
-        this.nextType = 'OR';
-        return this;
-    }
-
-    and() {
+    whereJson(column: JsonColumn<T>, operator: string | undefined, value: any) {
+        operator = normalizeOperator(operator);
+        if (typeof value !== 'boolean') {
+            return this.where(column, operator, value);
+        }
+        const json = splitJsonColumn(column);
+        this.conditions.push({
+            column: { sql: `JSON_EXTRACT(${json.column}, ?)`, bindings: [json.path] },
+            operator,
+            value: new Raw('CAST(? AS JSON)', [String(value)]),
+            type: this.nextType,
+            isGroup: false,
+        });
         this.nextType = 'AND';
         return this;
     }
 
     /**
-     * Adds a WHERE BETWEEN condition to the query.
+     * Adds a WHERE JSON_CONTAINS condition: the JSON column (or the key at its path) must contain the value.
+     * For arrays this checks membership; for objects, that every given key has the given value.
      * 
-     * @param {string} column - The column to filter by.
-     * @param {Array<any>} values - An array with two values representing the range.
+     * @param {string} column - The JSON column or path, e.g. `tags` or `meta->roles`.
+     * @param {any} value - The value that must be contained, serialized as JSON.
      * @returns {TableQuery} - Returns the current instance of TableQuery for method chaining.
      * 
      * @example
-     * const users = await db.table('users').whereBetween('age', [20, 30]).get();
-     * console.log(users); // [{ id: 1, name: 'John', age: 30 }, { id: 2, name: 'Jane', age: 25 }]
+     * const posts = await db.table('posts').whereJsonContains('tags', 'mysql').get();
+     * const admins = await db.table('users').whereJsonContains('meta->roles', ['admin']).get();
      */
-    whereBetween(column:string, [value1, value2]:any) {
-        if (Array.isArray([value1, value2]) && value1 !== undefined && value2 !== undefined) {
-            this.conditions.push({ column, operator: 'BETWEEN', value: [value1, value2], type: this.nextType, isGroup: false });
-            this.nextType = 'AND'; // Reiniciar el tipo después de agregar una condición
-        }
+    whereJsonContains(column: ColumnReference<T>, value: any) {
+        const json = splitJsonColumn(column);
+        const path = json.path === null ? [] : [json.path];
+        this.conditions.push({
+            query: { sql: `JSON_CONTAINS(${json.column}, ?${path.map(() => ', ?').join('')})`, bindings: [JSON.stringify(value), ...path] },
+            type: this.nextType,
+            isGroup: true,
+        });
+        this.nextType = 'AND';
         return this;
     }
 
     /**
-     * Adds a WHERE IN condition to the query.
+     * Adds a WHERE condition on the length of a JSON array or object (JSON_LENGTH).
      * 
-     * @param {string} column - The column to filter by.
-     * @param {Array<any>} values - An array of values to match.
+     * @param {string} column - The JSON column or path, e.g. `tags` or `meta->roles`.
+     * @param {string} operator - The comparison operator (e.g., '=', '>', '<').
+     * @param {number} value - The length to compare against.
      * @returns {TableQuery} - Returns the current instance of TableQuery for method chaining.
      * 
      * @example
-     * const users = await db.table('users').whereIn('id', [1, 2]).get();
-     * console.log(users); // [{ id: 1, name: 'John' }, { id: 2, name: 'Jane' }]
+     * const tagged = await db.table('posts').whereJsonLength('tags', '>', 2).get();
      */
-    whereIn(column:string, values:any) {
-        if (Array.isArray(values) && values.length > 0) {
-            this.conditions.push({ column, operator: 'IN', value: values, type: this.nextType, isGroup: false });
-            this.nextType = 'AND'; // Reiniciar el tipo después de agregar una condición
-        }
+    whereJsonLength(column: ColumnReference<T>, operator: string | undefined, value: number) {
+        operator = normalizeOperator(operator);
+        const json = splitJsonColumn(column);
+        const path = json.path === null ? [] : [json.path];
+        this.conditions.push({
+            column: { sql: `JSON_LENGTH(${json.column}${path.map(() => ', ?').join('')})`, bindings: path },
+            operator,
+            value,
+            type: this.nextType,
+            isGroup: false,
+        });
+        this.nextType = 'AND';
         return this;
     }
 
@@ -344,8 +1545,8 @@ class TableQuery {
     * const users = await db.table('users').whereNull('email').get();
     * console.log(users); // [{ id: 3, name: 'Alice', email: null }]
     */
-    whereNull(column:string) {
-        this.conditions.push({ column, operator: 'IS NULL', type: this.nextType, isGroup: false });
+    whereNull(column: ColumnReference<T> | Raw) {
+        this.conditions.push({ column: compileColumn(column), operator: 'IS NULL', type: this.nextType, isGroup: false });
         this.nextType = 'AND'; // Reiniciar el tipo después de agregar una condición
         return this;
     }
@@ -360,85 +1561,333 @@ class TableQuery {
      * const users = await db.table('users').whereNotNull('email').get();
      * console.log(users); // [{ id: 1, name: 'John', email: 'john@example.com' }]
      */
-    whereNotNull(column:string) {
-        this.conditions.push({ column, operator: 'IS NOT NULL', type: this.nextType, isGroup: false });
+    whereNotNull(column: ColumnReference<T> | Raw) {
+        this.conditions.push({ column: compileColumn(column), operator: 'IS NOT NULL', type: this.nextType, isGroup: false });
         this.nextType = 'AND'; // Reiniciar el tipo después de agregar una condición
         return this;
     }
 
-    buildQuery(includeSelect = true) {
-        let query = includeSelect ? this.query : ''; // Si se incluye el SELECT o no
+    /**
+     * Adds a HAVING condition to the query. The column can be an aggregate alias or a `raw()` expression.
+     * 
+     * @param {string | Raw} column - The column, alias or expression to filter by.
+     * @param {string} operator - The comparison operator (e.g., '=', '>', '<').
+     * @param {any} value - The value to compare against.
+     * @returns {TableQuery} - Returns the current instance of TableQuery for method chaining.
+     * 
+     * @example
+     * const categories = await db.table('products').select(['category']).count('*', 'total').groupBy('category').having('total', '>', 5).get();
+     * console.log(categories); // [{ category: 'books', total: 8 }]
+     */
+    having(column: string | Raw, operator: string | undefined, value: any) {
+        operator = normalizeOperator(operator);
+        this.havingConditions.push({ column: compileColumn(column), operator, value, type: 'AND', isGroup: false });
+        return this;
+    }
+
+    /**
+     * Adds an OR HAVING condition to the query.
+     * 
+     * @param {string | Raw} column - The column, alias or expression to filter by.
+     * @param {string} operator - The comparison operator (e.g., '=', '>', '<').
+     * @param {any} value - The value to compare against.
+     * @returns {TableQuery} - Returns the current instance of TableQuery for method chaining.
+     * 
+     * @example
+     * const categories = await db.table('products').select(['category']).sum('price', 'revenue').groupBy('category')
+     *     .having('revenue', '>', 1000).orHaving('category', '=', 'books').get();
+     */
+    orHaving(column: string | Raw, operator: string | undefined, value: any) {
+        operator = normalizeOperator(operator);
+        this.havingConditions.push({ column: compileColumn(column), operator, value, type: 'OR', isGroup: false });
+        return this;
+    }
+
+    /**
+     * Adds a HAVING BETWEEN condition to the query.
+     * 
+     * @param {string | Raw} column - The column, alias or expression to filter by.
+     * @param {Array<any>} values - An array with two values representing the range.
+     * @returns {TableQuery} - Returns the current instance of TableQuery for method chaining.
+     * 
+     * @example
+     * const categories = await db.table('products').select(['category']).avg('price', 'average').groupBy('category').havingBetween('average', [10, 50]).get();
+     */
+    havingBetween(column: string | Raw, [value1, value2]: any) {
+        if (value1 !== undefined && value2 !== undefined) {
+            this.havingConditions.push({ column: compileColumn(column), operator: 'BETWEEN', value: [value1, value2], type: 'AND', isGroup: false });
+        }
+        return this;
+    }
+
+    /**
+     * Adds a HAVING IN condition to the query.
+     * 
+     * @param {string | Raw} column - The column, alias or expression to filter by.
+     * @param {Array<any>} values - An array of values to match.
+     * @returns {TableQuery} - Returns the current instance of TableQuery for method chaining.
+     * 
+     * @example
+     * const categories = await db.table('products').select(['category']).count('*', 'total').groupBy('category').havingIn('total', [1, 2]).get();
+     */
+    havingIn(column: string | Raw, values: any) {
+        if (Array.isArray(values)) {
+            this.havingConditions.push({ column: compileColumn(column), operator: 'IN', value: values, type: 'AND', isGroup: false });
+        }
+        return this;
+    }
+
+    /**
+     * Adds a HAVING IS NULL condition to the query.
+     * 
+     * @param {string | Raw} column - The column, alias or expression to filter by.
+     * @returns {TableQuery} - Returns the current instance of TableQuery for method chaining.
+     * 
+     * @example
+     * const categories = await db.table('products').select(['category']).max('discount', 'best').groupBy('category').havingNull('best').get();
+     */
+    havingNull(column: string | Raw) {
+        this.havingConditions.push({ column: compileColumn(column), operator: 'IS NULL', type: 'AND', isGroup: false });
+        return this;
+    }
+
+    /**
+     * Adds a HAVING IS NOT NULL condition to the query.
+     * 
+     * @param {string | Raw} column - The column, alias or expression to filter by.
+     * @returns {TableQuery} - Returns the current instance of TableQuery for method chaining.
+     * 
+     * @example
+     * const categories = await db.table('products').select(['category']).max('discount', 'best').groupBy('category').havingNotNull('best').get();
+     */
+    havingNotNull(column: string | Raw) {
+        this.havingConditions.push({ column: compileColumn(column), operator: 'IS NOT NULL', type: 'AND', isGroup: false });
+        return this;
+    }
+
+    /**
+     * Compiles the query into SQL with `?` placeholders and the values bound to them.
+     * 
+     * @param {boolean} includeSelect - Whether to include the SELECT ... FROM part.
+     * @returns {CompiledQuery} - The SQL string and its bindings, in placeholder order.
+     * 
+     * @example
+     * const { sql, bindings } = db.table('users').where('name', '=', "O'Brien").buildQuery();
+     * console.log(sql); // SELECT * FROM `users` WHERE `name` = ?
+     * console.log(bindings); // ["O'Brien"]
+     */
+    buildQuery(includeSelect = true): CompiledQuery {
+        let query = '';
+        const bindings: any[] = [];
+
+        // Si se incluye el SELECT o no (las CTEs y los UNION forman parte del SELECT)
+        if (includeSelect) {
+            const withClause = this.#buildWith();
+            const combined = this.#buildCombined();
+            query = `${withClause.sql}${combined.sql}`;
+            bindings.push(...withClause.bindings, ...combined.bindings);
+        } else {
+            const body = this.#buildBody();
+            query = body.sql;
+            bindings.push(...body.bindings);
+        }
+
+        // Añadir ORDER BY (siempre antes de LIMIT/OFFSET)
+        if (this._orderBy.length > 0) {
+            const orderByClauses = this._orderBy
+                .map(order => `${order.column.sql} ${order.direction}`)
+                .join(', ');
+            query += ` ORDER BY ${orderByClauses}`;
+            bindings.push(...this._orderBy.flatMap(order => order.column.bindings));
+        }
+
+        if (this.limitValue !== null && this.limitValue !== undefined && !Number.isNaN(this.limitValue)) {
+            query += ' LIMIT ?';
+            bindings.push(Number(this.limitValue));
+        }
+
+        if (this.limitValue && this.pageValue !== null && this.pageValue !== undefined && !Number.isNaN(this.pageValue)) {
+            const offset = (this.pageValue - 1) * this.limitValue;
+            query += ' OFFSET ?';
+            bindings.push(Number(offset));
+        }
+
+        return { sql: query, bindings };
+    }
+
+    /**
+     * Compiles `SELECT [DISTINCT] columns FROM table` (or the derived table set by `fromSub()`).
+     */
+    #buildSelect(): CompiledQuery {
+        const columns = [...this.fields, ...this.aggregates];
+        const selectList = columns.length > 0 ? columns.map(column => column.sql).join(', ') : '*';
+        const from = this.#buildFrom();
+        return {
+            sql: `SELECT ${this._distinct ? 'DISTINCT ' : ''}${selectList} FROM ${from.sql}`,
+            bindings: [...columns.flatMap(column => column.bindings), ...from.bindings],
+        };
+    }
+
+    /**
+     * Compiles the JOIN, WHERE, GROUP BY and HAVING clauses shared by the query and its COUNT companion.
+     */
+    #buildBody(): CompiledQuery {
+        let query = '';
+        const bindings: any[] = [];
 
         // Añadir JOINs
         if (this.joins.length > 0) {
-            query += ` ${this.joins.join(' ')}`;
+            query += ` ${this.joins.map(join => join.sql).join(' ')}`;
+            bindings.push(...this.joins.flatMap(join => join.bindings));
         }
 
-        const whereClauses = this.buildConditions();
+        const whereClauses = this.#buildWhere();
 
-        if (whereClauses.length > 0) {
-            query += ` WHERE ${whereClauses}`;
+        if (whereClauses.sql.length > 0) {
+            query += ` WHERE ${whereClauses.sql}`;
+            bindings.push(...whereClauses.bindings);
         }
 
         // Añadir GROUP BY
         if (this._groupBy.length > 0) {
-            query += ` GROUP BY ${this._groupBy.join(', ')}`;
+            query += ` GROUP BY ${this._groupBy.map(column => column.sql).join(', ')}`;
+            bindings.push(...this._groupBy.flatMap(column => column.bindings));
         }
 
-        if (this.limitValue !== null && this.limitValue !== undefined && !Number.isNaN(this.limitValue)) {
-            query += ` LIMIT ${this.limitValue}`;
-          }
-      
-          if (this.limitValue && this.pageValue !== null && this.pageValue !== undefined && !Number.isNaN(this.pageValue)) {
-            const offset = (this.pageValue - 1) * this.limitValue;
-            query += ` OFFSET ${offset}`;
-          }
+        const havingClauses = compileConditions(this.havingConditions);
 
-        // Añadir ORDER BY solo si no es una consulta agregada (como COUNT, SUM, etc.)
-        if (this._orderBy.length > 0 && !this.query.startsWith('SELECT COUNT') && !this.query.startsWith('SELECT SUM') && !this.query.startsWith('SELECT AVG') && !this.query.startsWith('SELECT MAX') && !this.query.startsWith('SELECT MIN')) {
-            const orderByClauses = this._orderBy
-                .map(order => `${order.column} ${order.direction}`)
-                .join(', ');
-            query += ` ORDER BY ${orderByClauses}`;
+        if (havingClauses.sql.length > 0) {
+            query += ` HAVING ${havingClauses.sql}`;
+            bindings.push(...havingClauses.bindings);
         }
 
-        return query;
+        return { sql: query, bindings };
+    }
+
+    /**
+     * Compiles a `SELECT COUNT(*) AS total` query over the same joins and conditions.
+     * Grouped, DISTINCT or UNION queries are counted through a derived table so that `total` is the number of result rows.
+     */
+    #buildCountQuery(): CompiledQuery {
+        const withClause = this.#buildWith();
+        if (this._distinct || this._groupBy.length > 0 || this.havingConditions.length > 0 || this.unions.length > 0) {
+            const combined = this.#buildCombined();
+            return {
+                sql: `${withClause.sql}SELECT COUNT(*) AS total FROM (${combined.sql}) AS ${escapeIdentifier('kit_count')}`,
+                bindings: [...withClause.bindings, ...combined.bindings],
+            };
+        }
+        const from = this.#buildFrom();
+        const body = this.#buildBody();
+        return {
+            sql: `${withClause.sql}SELECT COUNT(*) AS total FROM ${from.sql}${body.sql}`,
+            bindings: [...withClause.bindings, ...from.bindings, ...body.bindings],
+        };
+    }
+
+    /**
+     * Compiles the WHERE conditions (without the `WHERE` keyword).
+     * Every value is replaced by a `?` placeholder and returned in `bindings`.
+     * 
+     * @returns {CompiledQuery} - The conditions SQL and its bindings.
+     */
+    buildConditions(): CompiledQuery {
+        return compileConditions(this.conditions);
+    }
+
+    /**
+     * Compiles the WHERE conditions together with the soft-delete scope of the table.
+     */
+    #buildWhere(): CompiledQuery {
+        const column = this.#deletedAtColumn();
+        if (column === null || this.trashed === 'include' || this.source) {
+            return this.buildConditions();
+        }
+        // Un OR de las condiciones no debe saltarse el filtro de eliminados
+        const hasOr = this.conditions.some((condition, index) => index > 0 && condition.type === 'OR');
+        const conditions: Condition[] = hasOr ? [{ query: this.buildConditions(), type: 'AND', isGroup: true }] : [...this.conditions];
+        conditions.push({ column: compileColumn(column), operator: this.trashed === 'only' ? 'IS NOT NULL' : 'IS NULL', type: 'AND', isGroup: false });
+        return compileConditions(conditions);
+    }
+
+    /**
+     * The soft-delete column, qualified with the table name (or its alias), or null when soft deletes are off.
+     */
+    #deletedAtColumn(): string | null {
+        const { softDeletes } = this.options;
+        if (!softDeletes) {
+            return null;
+        }
+        const column = typeof softDeletes === 'string' ? softDeletes : 'deleted_at';
+        const alias = this.tableName.match(/\s+as\s+(\S+)$/i);
+        return `${alias ? alias[1] : this.tableName.trim()}.${column}`;
+    }
+
+    /**
+     * Includes soft-deleted rows in the results.
+     * 
+     * @returns {TableQuery} - Returns the current instance of TableQuery for method chaining.
+     * 
+     * @example
+     * const posts = await db.table('posts').withTrashed().get();
+     */
+    withTrashed() {
+        this.trashed = 'include';
+        return this;
+    }
+
+    /**
+     * Returns only soft-deleted rows.
+     * 
+     * @returns {TableQuery} - Returns the current instance of TableQuery for method chaining.
+     * 
+     * @example
+     * const trash = await db.table('posts').onlyTrashed().get();
+     */
+    onlyTrashed() {
+        this.#requireSoftDeletes('onlyTrashed');
+        this.trashed = 'only';
+        return this;
+    }
+
+    /**
+     * The timestamp columns filled automatically, or null when `timestamps` is off for the table.
+     */
+    #timestampColumns(): { createdAt: string | null; updatedAt: string | null } {
+        const { timestamps } = this.options;
+        if (!timestamps) {
+            return { createdAt: null, updatedAt: null };
+        }
+        const names = timestamps === true ? {} : timestamps;
+        return {
+            createdAt: names.createdAt === false ? null : names.createdAt ?? 'created_at',
+            updatedAt: names.updatedAt === false ? null : names.updatedAt ?? 'updated_at',
+        };
+    }
+
+    /**
+     * Converts the rows read from the table with the `casts` of the table.
+     */
+    #hydrate(rows: any[]): any[] {
+        const casts = this.options.casts;
+        return casts && Array.isArray(rows) ? rows.map(row => hydrateRow(row, casts)) : rows;
     }
 
-    buildConditions() {
-      return this.conditions
-          .map((cond, index) => {
-              const prefix = index === 0 ? '' : ` ${cond.type} `;
-              if (cond.isGroup) {
-                  return `${prefix}(${cond.query})`;
-              }
-              let conditionStr = '';
-              if (cond.operator === 'BETWEEN') {
-                  const [value1, value2] = cond.value;
-                  const formattedValue1 = typeof value1 === 'string' ? `'${value1}'` : value1;
-                  const formattedValue2 = typeof value2 === 'string' ? `'${value2}'` : value2;
-                  conditionStr = `${cond.column} BETWEEN ${formattedValue1} AND ${formattedValue2}`;
-              } else if (cond.operator === 'IN') {
-                  const values = cond.value.map((val:any) => typeof val === 'string' ? `'${val}'` : val).join(', ');
-                  conditionStr = `${cond.column} IN (${values})`;
-              } else if (cond.operator === 'IS NULL') {
-                  conditionStr = `${cond.column} IS NULL`;
-              } else if (cond.operator === 'IS NOT NULL') {
-                  conditionStr = `${cond.column} IS NOT NULL`;
-              } else {
-                  const value = typeof cond.value === 'string' ? `'${cond.value}'` : cond.value;
-                  conditionStr = `${cond.column} ${cond.operator} ${value}`;
-              }
-              return `${prefix}${conditionStr}`;
-          })
-          .join('');
+    #requireSoftDeletes(method: string): string {
+        const column = this.#deletedAtColumn();
+        if (column === null) {
+            throw new QueryBuilderError(`${method}() requires soft deletes on the ${this.tableName} table; enable them with db.configureTable().`);
+        }
+        return column.split('.').pop() as string;
     }
 
     /**
      * Adds a JOIN clause to the query.
+     * Pass a callback instead of the columns to build an ON clause with several conditions;
+     * the table can be aliased with `table as alias`.
      * 
      * @param {string} table - The table to join.
-     * @param {string} column1 - The column from the current table.
+     * @param {string | Function} column1 - The column from the current table, or a callback that receives a `JoinClause`.
      * @param {string} operator - The comparison operator (e.g., '=', '>', '<').
      * @param {string} column2 - The column from the joined table.
      * @returns {TableQuery} - Returns the current instance of TableQuery for method chaining.
@@ -446,17 +1895,23 @@ class TableQuery {
      * @example
      * const users = await db.table('users').join('orders', 'users.id', '=', 'orders.user_id').get();
      * console.log(users); // [{ id: 1, name: 'John', order_id: 101 }]
+     * 
+     * const paid = await db.table('users')
+     *     .join('orders as o', j => j.on('users.id', '=', 'o.user_id').where('o.status', 'paid'))
+     *     .get();
+     * // SELECT * FROM `users` JOIN `orders` AS `o` ON `users`.`id` = `o`.`user_id` AND `o`.`status` = ?
      */
-    join(table: string, column1:string, operator:string, column2:string) {
-        this.joins.push(`JOIN ${table} ON ${column1} ${operator} ${column2}`);
-        return this;
+    join(table: string, callback: (join: JoinClause) => void): this;
+    join(table: string, column1: string, operator: string, column2: string): this;
+    join(table: string, column1: string | ((join: JoinClause) => void), operator?: string, column2?: string) {
+        return this.#join('JOIN', { sql: wrapIdentifier(table), bindings: [] }, column1, operator, column2);
     }
 
     /**
-     * Adds a LEFT JOIN clause to the query.
+     * Adds a LEFT JOIN clause to the query. Accepts the same arguments as `join()`.
      * 
      * @param {string} table - The table to join.
-     * @param {string} column1 - The column from the current table.
+     * @param {string | Function} column1 - The column from the current table, or a callback that receives a `JoinClause`.
      * @param {string} operator - The comparison operator (e.g., '=', '>', '<').
      * @param {string} column2 - The column from the joined table.
      * @returns {TableQuery} - Returns the current instance of TableQuery for method chaining.
@@ -465,16 +1920,17 @@ class TableQuery {
      * const users = await db.table('users').leftJoin('orders', 'users.id', '=', 'orders.user_id').get();
      * console.log(users); // [{ id: 1, name: 'John', order_id: 101 }, { id: 2, name: 'Jane', order_id: null }]
      */
-    leftJoin(table: string, column1: string, operator: string, column2: string) {
-        this.joins.push(`LEFT JOIN ${table} ON ${column1} ${operator} ${column2}`);
-        return this;
+    leftJoin(table: string, callback: (join: JoinClause) => void): this;
+    leftJoin(table: string, column1: string, operator: string, column2: string): this;
+    leftJoin(table: string, column1: string | ((join: JoinClause) => void), operator?: string, column2?: string) {
+        return this.#join('LEFT JOIN', { sql: wrapIdentifier(table), bindings: [] }, column1, operator, column2);
     }
 
     /**
-     * Adds a RIGHT JOIN clause to the query.
+     * Adds a RIGHT JOIN clause to the query. Accepts the same arguments as `join()`.
      * 
      * @param {string} table - The table to join.
-     * @param {string} column1 - The column from the current table.
+     * @param {string | Function} column1 - The column from the current table, or a callback that receives a `JoinClause`.
      * @param {string} operator - The comparison operator (e.g., '=', '>', '<').
      * @param {string} column2 - The column from the joined table.
      * @returns {TableQuery} - Returns the current instance of TableQuery for method chaining.
@@ -483,44 +1939,128 @@ class TableQuery {
      * const users = await db.table('users').rightJoin('orders', 'users.id', '=', 'orders.user_id').get();
      * console.log(users); // [{ id: 1, name: 'John', order_id: 101 }, { id: null, name: null, order_id: 102 }]
      */
-    rightJoin(table: string, column1: string, operator: string, column2: string) {
-        this.joins.push(`RIGHT JOIN ${table} ON ${column1} ${operator} ${column2}`);
+    rightJoin(table: string, callback: (join: JoinClause) => void): this;
+    rightJoin(table: string, column1: string, operator: string, column2: string): this;
+    rightJoin(table: string, column1: string | ((join: JoinClause) => void), operator?: string, column2?: string) {
+        return this.#join('RIGHT JOIN', { sql: wrapIdentifier(table), bindings: [] }, column1, operator, column2);
+    }
+
+    /**
+     * Adds a CROSS JOIN clause (every combination of rows) to the query.
+     * 
+     * @param {string} table - The table to join.
+     * @returns {TableQuery} - Returns the current instance of TableQuery for method chaining.
+     * 
+     * @example
+     * const grid = await db.table('sizes').crossJoin('colors').select(['sizes.name as size', 'colors.name as color']).get();
+     */
+    crossJoin(table: string) {
+        this.joins.push({ sql: `CROSS JOIN ${wrapIdentifier(table)}`, bindings: [] });
+        return this;
+    }
+
+    /**
+     * Joins a subquery (a derived table) under the given alias.
+     * 
+     * @param {Subquery} query - A `TableQuery` or a callback that builds one on the same table.
+     * @param {string} alias - The name of the derived table.
+     * @param {string | Function} column1 - The column from the current table, or a callback that receives a `JoinClause`.
+     * @param {string} operator - The comparison operator (e.g., '=', '>', '<').
+     * @param {string} column2 - The column from the derived table.
+     * @returns {TableQuery} - Returns the current instance of TableQuery for method chaining.
+     * 
+     * @example
+     * const latest = db.table('orders').select(['user_id']).max('created_at', 'last_order').groupBy('user_id');
+     * const users = await db.table('users').joinSub(latest, 'latest', 'users.id', '=', 'latest.user_id').get();
+     * // SELECT * FROM `users` JOIN (SELECT `user_id`, MAX(`created_at`) AS `last_order` FROM `orders` GROUP BY `user_id`) AS `latest` ON ...
+     */
+    joinSub(query: Subquery, alias: string, callback: (join: JoinClause) => void): this;
+    joinSub(query: Subquery, alias: string, column1: string, operator: string, column2: string): this;
+    joinSub(query: Subquery, alias: string, column1: string | ((join: JoinClause) => void), operator?: string, column2?: string) {
+        return this.#join('JOIN', this.#derivedTable(query, alias), column1, operator, column2);
+    }
+
+    /**
+     * Left joins a subquery (a derived table) under the given alias. Accepts the same arguments as `joinSub()`.
+     * 
+     * @param {Subquery} query - A `TableQuery` or a callback that builds one on the same table.
+     * @param {string} alias - The name of the derived table.
+     * @param {string | Function} column1 - The column from the current table, or a callback that receives a `JoinClause`.
+     * @param {string} operator - The comparison operator (e.g., '=', '>', '<').
+     * @param {string} column2 - The column from the derived table.
+     * @returns {TableQuery} - Returns the current instance of TableQuery for method chaining.
+     */
+    leftJoinSub(query: Subquery, alias: string, callback: (join: JoinClause) => void): this;
+    leftJoinSub(query: Subquery, alias: string, column1: string, operator: string, column2: string): this;
+    leftJoinSub(query: Subquery, alias: string, column1: string | ((join: JoinClause) => void), operator?: string, column2?: string) {
+        return this.#join('LEFT JOIN', this.#derivedTable(query, alias), column1, operator, column2);
+    }
+
+    #join(type: string, target: CompiledQuery, column1: string | ((join: JoinClause) => void), operator?: string, column2?: string) {
+        const clause = new JoinClause();
+        if (typeof column1 === 'function') {
+            column1(clause);
+        } else {
+            clause.on(column1, operator, column2 as string);
+        }
+        const on = clause.compile();
+        if (on.sql.length === 0) {
+            throw new QueryBuilderError(`${type} ${target.sql} requires at least one ON condition.`);
+        }
+        this.joins.push({ sql: `${type} ${target.sql} ON ${on.sql}`, bindings: [...target.bindings, ...on.bindings] });
         return this;
     }
 
     /**
      * Adds an ORDER BY clause to the query.
      * 
-     * @param {string} column - The column to order by.
+     * @param {string | Raw} column - The column to order by.
+     * @param {string} direction - The sorting direction ('ASC' or 'DESC').
+     * @returns {TableQuery} - Returns the current instance of TableQuery for method chaining.
+     * 
+     * @example
+     * const users = await db.table('users').orderBy('name', 'ASC').get();
+     * console.log(users); // [{ id: 2, name: 'Jane' }, { id: 1, name: 'John' }]
+     */
+    orderBy(column: ColumnReference<T> | Raw, direction: string = 'ASC') {
+      const validDirections = ['ASC', 'DESC'];
+      if (validDirections.includes(direction.toUpperCase())) {
+          this._orderBy.push({ column: compileColumn(column), direction: direction.toUpperCase() });
+      } else {
+          throw new QueryBuilderError(`Invalid direction: ${direction}. Use 'ASC' or 'DESC'.`);
+      }
+      return this;
+    }
+
+    /**
+     * Orders the results by full-text relevance, most relevant first by default.
+     * 
+     * @param {string | string[]} columns - The columns of the FULLTEXT index.
+     * @param {string} term - The search term.
+     * @param {FullTextOptions} options - The search mode (`natural`, `boolean` or `expansion`).
      * @param {string} direction - The sorting direction ('ASC' or 'DESC').
      * @returns {TableQuery} - Returns the current instance of TableQuery for method chaining.
      * 
      * @example
-     * const users = await db.table('users').orderBy('name', 'ASC').get();
-     * console.log(users); // [{ id: 2, name: 'Jane' }, { id: 1, name: 'John' }]
+     * const posts = await db.table('posts').whereFullText('body', 'mysql').orderByFullText('body', 'mysql').get();
      */
-    orderBy(column: string, direction: string = 'ASC') {
-      const validDirections = ['ASC', 'DESC'];
-      if (validDirections.includes(direction.toUpperCase())) {
-          this._orderBy.push({ column, direction: direction.toUpperCase() });
-      } else {
-          throw new Error(`Invalid direction: ${direction}. Use 'ASC' or 'DESC'.`);
-      }
-      return this;
+    orderByFullText(columns: ColumnReference<T> | ColumnReference<T>[], term: string, options: FullTextOptions = {}, direction: string = 'DESC') {
+        const match = compileMatch(columns, term, options);
+        return this.orderBy(new Raw(match.sql, match.bindings), direction);
     }
 
     /**
      * Adds a GROUP BY clause to the query.
      * 
-     * @param {string} column - The column to group by.
+     * @param {string | Raw} column - The column to group by.
      * @returns {TableQuery} - Returns the current instance of TableQuery for method chaining.
      * 
      * @example
      * const users = await db.table('users').groupBy('age').get();
      * console.log(users); // [{ age: 30, count: 1 }, { age: 25, count: 1 }]
      */
-    groupBy(column:string) {
-        this._groupBy.push(column);
+    groupBy(column: ColumnReference<T> | Raw) {
+        this._groupBy.push(compileColumn(column));
         return this;
     }
 
@@ -535,83 +2075,96 @@ class TableQuery {
      */
     distinct() {
       this._distinct = true;
-      this.query = this.query.replace(/^SELECT /, 'SELECT DISTINCT '); // Cambia SELECT a SELECT DISTINCT si ya se ha establecido DISTINCT
       return this;
     }
 
     /**
-     * Adds a COUNT clause to the query.
+     * Adds a COUNT aggregate to the selected columns.
+     * Aggregates are combined with the columns given to `select` and with each other.
      * 
      * @param {string} column - The column to count (default is '*').
+     * @param {string} alias - The name of the result column (default is 'count').
      * @returns {TableQuery} - Returns the current instance of TableQuery for method chaining.
      * 
      * @example
      * const count = await db.table('users').count().first();
      * console.log(count); // { count: 2 }
+     * 
+     * @example
+     * const stats = await db.table('products').select(['category']).count('*', 'total').sum('price', 'revenue').groupBy('category').get();
+     * console.log(stats); // [{ category: 'books', total: 3, revenue: 45.5 }]
      */
-    count(column = '*') {
-        this.query = `SELECT COUNT(${column}) AS count FROM ${this.tableName}`;
-        return this;
+    count<A extends string = 'count'>(column: ColumnReference<T> | '*' | Raw = '*', alias: A = 'count' as A): TableQuery<T, WithAggregate<T, R, A>> {
+        return this.#aggregate('COUNT', column, alias);
     }
 
     /**
-     * Adds a SUM clause to the query.
+     * Adds a SUM aggregate to the selected columns.
      * 
      * @param {string} column - The column to sum.
+     * @param {string} alias - The name of the result column (default is 'sum').
      * @returns {TableQuery} - Returns the current instance of TableQuery for method chaining.
      * 
      * @example
      * const totalAge = await db.table('users').sum('age').first();
      * console.log(totalAge); // { sum: 55 }
      */
-    sum(column: string) {
-        this.query = `SELECT SUM(${column}) AS sum FROM \`${this.tableName}\``;
-        return this;
+    sum<A extends string = 'sum'>(column: ColumnReference<T> | Raw, alias: A = 'sum' as A): TableQuery<T, WithAggregate<T, R, A>> {
+        return this.#aggregate('SUM', column, alias);
     }
 
     /**
-     * Adds an AVG clause to the query.
+     * Adds an AVG aggregate to the selected columns.
      * 
      * @param {string} column - The column to calculate the average.
+     * @param {string} alias - The name of the result column (default is 'avg').
      * @returns {TableQuery} - Returns the current instance of TableQuery for method chaining.
      * 
      * @example
      * const avgAge = await db.table('users').avg('age').first();
      * console.log(avgAge); // { avg: 27.5 }
      */
-    avg(column:string) {
-        this.query = `SELECT AVG(${column}) AS avg FROM \`${this.tableName}\``;
-        return this;
+    avg<A extends string = 'avg'>(column: ColumnReference<T> | Raw, alias: A = 'avg' as A): TableQuery<T, WithAggregate<T, R, A>> {
+        return this.#aggregate('AVG', column, alias);
     }
 
     /**
-     * Adds a MAX clause to the query.
+     * Adds a MAX aggregate to the selected columns.
      * 
      * @param {string} column - The column to find the maximum value.
+     * @param {string} alias - The name of the result column (default is 'max').
      * @returns {TableQuery} - Returns the current instance of TableQuery for method chaining.
      * 
      * @example
      * const maxAge = await db.table('users').max('age').first();
      * console.log(maxAge); // { max: 30 }
      */
-    max(column:string) {
-        this.query = `SELECT MAX(${column}) AS max FROM \`${this.tableName}\``;
-        return this;
+    max<A extends string = 'max'>(column: ColumnReference<T> | Raw, alias: A = 'max' as A): TableQuery<T, WithAggregate<T, R, A, any>> {
+        return this.#aggregate('MAX', column, alias);
     }
 
     /**
-     * Adds a MIN clause to the query.
+     * Adds a MIN aggregate to the selected columns.
      * 
      * @param {string} column - The column to find the minimum value.
+     * @param {string} alias - The name of the result column (default is 'min').
      * @returns {TableQuery} - Returns the current instance of TableQuery for method chaining.
      * 
      * @example
      * const minAge = await db.table('users').min('age').first();
      * console.log(minAge); // { min: 25 }
      */
-    min(column: string) {
-        this.query = `SELECT MIN(${column}) AS min FROM \`${this.tableName}\``;
-        return this;
+    min<A extends string = 'min'>(column: ColumnReference<T> | Raw, alias: A = 'min' as A): TableQuery<T, WithAggregate<T, R, A, any>> {
+        return this.#aggregate('MIN', column, alias);
+    }
+
+    /**
+     * Adds `FUNCTION(column) AS alias` to the aggregates of the SELECT.
+     */
+    #aggregate(fn: string, column: string | Raw, alias: string): TableQuery<T, any> {
+        const compiled = compileColumn(column);
+        this.aggregates.push({ sql: `${fn}(${compiled.sql}) AS ${escapeIdentifier(alias)}`, bindings: compiled.bindings });
+        return this as TableQuery<T, any>;
     }
 
     /**
@@ -644,6 +2197,218 @@ class TableQuery {
         return this; 
     }
 
+    /**
+     * Executes the query for one page and counts the total of matching rows with a companion COUNT query
+     * that reuses the same joins and conditions.
+     * 
+     * @param {number} page - The page number (starting from 1).
+     * @param {number} perPage - The number of rows per page (default is 15).
+     * @returns {Promise<Paginated>} - The rows of the page and the pagination details.
+     * 
+     * @example
+     * const result = await db.table('users').where('age', '>', 18).orderBy('name').paginate(2, 10);
+     * console.log(result); // { data: [...], total: 42, page: 2, perPage: 10, lastPage: 5 }
+     */
+    async paginate(page: number = 1, perPage: number = 15): Promise<Paginated<R>> {
+        if (!Number.isInteger(page) || page < 1 || !Number.isInteger(perPage) || perPage < 1) {
+            throw new QueryBuilderError('The page and perPage values must be positive integers.');
+        }
+
+        const count = this.#buildCountQuery();
+        const countResult: any = await this.#get_response(count.sql, count.bindings);
+        const total = Number(countResult[0]?.total ?? 0);
+
+        const [limitValue, pageValue] = [this.limitValue, this.pageValue];
+        try {
+            this.limitValue = perPage;
+            this.pageValue = page;
+            const data = await this.get();
+
+            return { data, total, page, perPage, lastPage: Math.max(1, Math.ceil(total / perPage)) };
+        } finally {
+            // Restaurar el estado del builder
+            this.limitValue = limitValue;
+            this.pageValue = pageValue;
+        }
+    }
+
+    /**
+     * Executes the query using keyset (cursor) pagination: instead of an OFFSET, it returns the rows
+     * that come after the given cursor value. The cursor column must be unique and indexed.
+     * 
+     * @param {CursorOptions} options - The cursor value (`after`), the cursor column (default 'id'),
+     * the page size (default 15) and the direction (default 'ASC').
+     * @returns {Promise<CursorPage>} - The rows, the cursor for the next page and whether there are more rows.
+     * 
+     * @example
+     * const first = await db.table('events').cursorPaginate({ limit: 100 });
+     * const next = await db.table('events').cursorPaginate({ after: first.nextCursor, limit: 100 });
+     * console.log(next); // { data: [...], nextCursor: 200, hasMore: true }
+     */
+    async cursorPaginate(options: CursorOptions<T> = {}): Promise<CursorPage<R>> {
+        const { after, column = 'id' as ColumnReference<T>, limit = 15, direction = 'ASC' } = options;
+        if (!Number.isInteger(limit) || limit < 1) {
+            throw new QueryBuilderError('The limit value must be a positive integer.');
+        }
+        const descending = direction.toUpperCase() === 'DESC';
+
+        const { conditions, _orderBy, limitValue, pageValue, nextType } = this;
+        try {
+            // Se trabaja sobre copias para no dejar el cursor en el builder
+            this.conditions = [...conditions];
+            this._orderBy = [..._orderBy];
+            if (after !== undefined && after !== null) {
+                this.where(column, descending ? '<' : '>', after);
+            }
+            this.orderBy(column, descending ? 'DESC' : 'ASC');
+            // El orden del cursor debe ser el primero para que las páginas sean consistentes
+            this._orderBy.unshift(this._orderBy.pop() as OrderBy);
+            this.limitValue = limit + 1;
+            this.pageValue = null;
+
+            const rows: any[] = await this.get();
+            const hasMore = rows.length > limit;
+            const data = hasMore ? rows.slice(0, limit) : rows;
+            const key = String(column).split('.').pop() as string;
+            const nextCursor = hasMore ? data[data.length - 1][key] : null;
+
+            return { data, nextCursor, hasMore };
+        } finally {
+            // Restaurar el estado del builder
+            Object.assign(this, { conditions, _orderBy, limitValue, pageValue, nextType });
+        }
+    }
+
+    /**
+     * Executes the query and streams the matching rows one by one, backed by mysql2's row streaming,
+     * so that large results are never held in memory at once.
+     * 
+     * @returns {Readable} - An object-mode stream of rows, also usable with `for await`.
+     * 
+     * @example
+     * for await (const event of db.table('events').where('type', '=', 'click').stream()) {
+     *     await exportRow(event);
+     * }
+     * 
+     * db.table('events').stream().pipe(csvTransform).pipe(fs.createWriteStream('events.csv'));
+     */
+    stream(): Readable & AsyncIterable<R> {
+        const { sql, bindings } = this.buildQuery();
+        if (!this.conection?.stream) {
+            throw new ConnectionError('The database connection has not been established.', { sql, bindings });
+        }
+        const rows = this.conection.stream(sql, bindings);
+        const casts = this.options.casts;
+        if (!casts) {
+            return rows;
+        }
+        return Readable.from((async function* () {
+            for await (const row of rows) {
+                yield hydrateRow(row, casts);
+            }
+        })());
+    }
+
+    /**
+     * Runs the query page by page (using `limit`/`page`) and passes each page of rows to the callback.
+     * The query must have an `orderBy()` so that pages are stable. Return `false` from the callback to stop.
+     * If the callback modifies the rows it receives in a way that changes the filter or the order, use `chunkById()`.
+     * 
+     * @param {number} size - The number of rows per page.
+     * @param {Function} callback - Receives the rows and the page number.
+     * @returns {Promise<boolean>} - `false` when the callback stopped the iteration, `true` otherwise.
+     * 
+     * @example
+     * await db.table('users').where('active', '=', 1).orderBy('created_at').chunk(1000, async (users, page) => {
+     *     await mailer.send(users);
+     * });
+     */
+    async chunk(size: number, callback: (rows: R[], page: number) => unknown): Promise<boolean> {
+        if (!Number.isInteger(size) || size < 1) {
+            throw new QueryBuilderError('The chunk size must be a positive integer.');
+        }
+        if (this._orderBy.length === 0) {
+            throw new QueryBuilderError('chunk() requires an orderBy() clause; use chunkById() to page by the primary key.');
+        }
+
+        const [limitValue, pageValue] = [this.limitValue, this.pageValue];
+        try {
+            for (let page = 1; ; page++) {
+                this.limitValue = size;
+                this.pageValue = page;
+                const rows = await this.get();
+                if (rows.length === 0) {
+                    return true;
+                }
+                if (await callback(rows, page) === false) {
+                    return false;
+                }
+                if (rows.length < size) {
+                    return true;
+                }
+            }
+        } finally {
+            // Restaurar el estado del builder
+            this.limitValue = limitValue;
+            this.pageValue = pageValue;
+        }
+    }
+
+    /**
+     * Runs the query in pages keyed by an increasing column (`WHERE id > last ORDER BY id LIMIT size`) and passes each
+     * page to the callback. Unlike `chunk()`, rows updated or deleted by the callback do not shift later pages.
+     * The existing WHERE conditions are kept; the ordering is replaced by the key column. Return `false` from the callback to stop.
+     * 
+     * @param {number} size - The number of rows per page.
+     * @param {Function} callback - Receives the rows and the page number.
+     * @param {string} column - The key column (default is 'id'); it must be among the selected columns.
+     * @returns {Promise<boolean>} - `false` when the callback stopped the iteration, `true` otherwise.
+     * 
+     * @example
+     * await db.table('orders').where('status', '=', 'pending').chunkById(500, async orders => {
+     *     await db.table('orders').whereIn('id', orders.map(order => order.id)).update({ status: 'expired' });
+     * });
+     */
+    async chunkById(size: number, callback: (rows: R[], page: number) => unknown, column: ColumnReference<T> = 'id' as ColumnReference<T>): Promise<boolean> {
+        if (!Number.isInteger(size) || size < 1) {
+            throw new QueryBuilderError('The chunk size must be a positive integer.');
+        }
+
+        const { conditions, _orderBy, limitValue, pageValue } = this;
+        // Las condiciones existentes se agrupan para que un OR no escape del filtro por clave
+        const filter: Condition[] = conditions.length > 0 ? [{ query: compileConditions(conditions), type: 'AND', isGroup: true }] : [];
+        const key = String(column).split('.').pop() as string;
+        let last: any = null;
+        try {
+            for (let page = 1; ; page++) {
+                this.conditions = last === null
+                    ? [...filter]
+                    : [...filter, { column: compileColumn(column), operator: '>', value: last, type: 'AND', isGroup: false }];
+                this._orderBy = [{ column: compileColumn(column), direction: 'ASC' }];
+                this.limitValue = size;
+                this.pageValue = null;
+
+                const rows: any[] = await this.get();
+                if (rows.length === 0) {
+                    return true;
+                }
+                if (await callback(rows, page) === false) {
+                    return false;
+                }
+                last = rows[rows.length - 1][key];
+                if (last === undefined || last === null) {
+                    throw new QueryBuilderError(`chunkById() requires the ${key} column in the selected columns.`);
+                }
+                if (rows.length < size) {
+                    return true;
+                }
+            }
+        } finally {
+            // Restaurar el estado del builder
+            Object.assign(this, { conditions, _orderBy, limitValue, pageValue });
+        }
+    }
+
     /**
     * Executes the query and returns all matching rows.
     * 
@@ -653,11 +2418,11 @@ class TableQuery {
     * const users = await db.table('users').get();
     * console.log(users); // [{ id: 1, name: 'John' }, { id: 2, name: 'Jane' }]
     */
-    async get() {
-      const sqlQuery = this.buildQuery();
+    async get(): Promise<R[]> {
+      const { sql, bindings } = this.buildQuery();
       try {
-          const result = await this.#get_response(sqlQuery);
-          return result; // Devuelve todos los resultados
+          const result = await this.#get_response(sql, bindings);
+          return this.#hydrate(result); // Devuelve todos los resultados
       } catch (error) {
           throw error;
       }
@@ -672,11 +2437,11 @@ class TableQuery {
      * const user = await db.table('users').first();
      * console.log(user); // { id: 1, name: 'John' }
      */
-    async first() {
-        const sqlQuery = this.buildQuery();
+    async first(): Promise<R | null> {
+        const { sql, bindings } = this.buildQuery();
         try {
-            const result:any = await this.#get_response(sqlQuery);
-            return result[0] || null; // Devuelve el primer resultado o null si no hay resultados
+            const result:any = await this.#get_response(sql, bindings);
+            return this.#hydrate(result)[0] || null; // Devuelve el primer resultado o null si no hay resultados
         } catch (error) {
             //console.error('Error al obtener el primer resultado.', error);
             throw error;
@@ -694,12 +2459,12 @@ class TableQuery {
      * const user = await db.table('users').find(1);
      * console.log(user); // { id: 1, name: 'John' }
      */
-    async find(value:any, column = 'id') {
+    async find(value:any, column: ColumnReference<T> = 'id' as ColumnReference<T>): Promise<R | null> {
         this.where(column, '=', value); // Agregar una condición WHERE
-        const sqlQuery = this.buildQuery();
+        const { sql, bindings } = this.buildQuery();
         try {
-            const result:any = await this.#get_response(sqlQuery);
-            return result[0] || null; // Devuelve el primer resultado o null si no hay resultados
+            const result:any = await this.#get_response(sql, bindings);
+            return this.#hydrate(result)[0] || null; // Devuelve el primer resultado o null si no hay resultados
         } catch (error) {
             //console.error('Error al encontrar el registro.', error);
             throw error;
@@ -707,10 +2472,20 @@ class TableQuery {
     }
     
     /**
-     * Inserts one or more rows into the table.
+     * Inserts one or more rows into the table using multi-row `INSERT ... VALUES (...), (...)` statements.
+     * Large arrays are split into chunks of `chunkSize` rows; wrap the call in `db.transaction` if all chunks must be atomic.
+     * Columns missing from a row are inserted with their DEFAULT value.
+     * 
+     * By default the inserted rows are fetched again by the `key` column, using the values given in the rows
+     * when every row has one. Otherwise `key` must be the AUTO_INCREMENT column and each chunk is fetched from its
+     * `insertId`, stepping by `@@auto_increment_increment`. This relies on MySQL giving the rows of one INSERT
+     * consecutive ids, which `innodb_autoinc_lock_mode = 2` does not guarantee under concurrent inserts;
+     * pass the key values or `fetch: false` in that case.
+     * With `fetch: false` only `{ insertId, affectedRows }` is returned.
      * 
      * @param {Array<Object>} data - An array of objects representing the rows to insert.
-     * @returns {Promise<Array<Object>>} - Returns an array of the inserted rows.
+     * @param {InsertOptions} options - `fetch` (default true), `key` (default 'id') and `chunkSize` (default 1000).
+     * @returns {Promise<Array<Object> | InsertResult>} - Returns an array of the inserted rows, or the insert result.
      * 
      * @example
      * const newUsers = await db.table('users').insert([
@@ -718,79 +2493,356 @@ class TableQuery {
      *     { name: 'Bob', age: 32 }
      * ]);
      * console.log(newUsers); // [{ id: 3, name: 'Alice', age: 28 }, { id: 4, name: 'Bob', age: 32 }]
+     * 
+     * @example
+     * const result = await db.table('logs').insert(entries, { fetch: false, chunkSize: 500 });
+     * console.log(result); // { insertId: 101, affectedRows: 2000 }
      */
-    async insert(data:any) {
-        // Verifica si data NO es un array
-        if (!Array.isArray(data)) {
-            throw new Error('El método insert requiere un array de objetos con pares clave-valor.');
-        }
-    
-        // Asegúrate de que el array contenga solo objetos
-        if (!data.every(item => typeof item === 'object' && item !== null)) {
-            throw new Error('El array debe contener solo objetos válidos.');
+    async insert(data: RowInput<T>[], options?: InsertOptions & { fetch?: true }): Promise<T[]>;
+    async insert(data: RowInput<T>[], options: InsertOptions & { fetch: false }): Promise<InsertResult>;
+    async insert(data: RowInput<T>[], options: InsertOptions = {}): Promise<T[] | InsertResult> {
+        const { fetch = true, key = 'id', chunkSize = 1000 } = options;
+        this.#validateRows(data, 'insert');
+
+        if (!Number.isInteger(chunkSize) || chunkSize < 1) {
+            throw new QueryBuilderError('The chunkSize value must be a positive integer.');
         }
     
+        data = await this.#beforeInsert(data);
         try {
-            const results: any = [];
-    
-            for (const row of data) {
-                const keys = Object.keys(row).map(key => `\`${key}\``);
-                const values = Object.values(row).map(value => {
-                    if (value === undefined || value === null) {
-                        return 'NULL'; // Maneja valores undefined o null
-                    }
-                    return typeof value === 'string' ? `'${value}'` : value;
-                });
-    
-                const columns = keys.join(', ');
-                const placeholders = values.join(', ');
+            const rows: T[] = [];
+            const keys: any[] = [];
+            const summary: InsertResult = { insertId: 0, affectedRows: 0 };
+            const keyed = data.every(row => (row as any)[key] !== undefined && (row as any)[key] !== null);
+            let increment: number | null = null;
     
-                const sqlQuery = `INSERT INTO \`${this.tableName}\` (${columns}) VALUES (${placeholders})`;
-    
-                const result:any = await this.#get_response(sqlQuery);
-                const insertedRow = await this.where('id', '=', result.insertId || 0).first();
-                results.push(insertedRow);
+            for (let start = 0; start < data.length; start += chunkSize) {
+                const chunk = data.slice(start, start + chunkSize);
+                const { sql, bindings } = this.#buildInsert(chunk, 'INSERT');
+                const result: any = await this.#get_response(sql, bindings);
+
+                summary.insertId = summary.insertId || result.insertId;
+                summary.affectedRows += result.affectedRows;
+
+                if (fetch && keyed) {
+                    keys.push(...chunk.map(row => (row as any)[key]));
+                } else if (fetch && result.insertId) {
+                    increment ??= await this.#autoIncrementIncrement();
+                    rows.push(...await this.#fetchInsertedRange(key, result, increment));
+                }
             }
     
-            return results;
-        } catch (error:any) {
-            throw new Error('Error al insertar los datos: ' + error.message);
+            if (fetch && keyed) {
+                rows.push(...await this.#fetchInserted(key, keys, chunkSize));
+            }
+            await this.#runHook('afterInsert', data, summary);
+            return fetch ? rows : summary;
+        } catch (error) {
+            throw error;
         }
     }
 
     /**
-     * Inserts one or more rows into the table.
+     * Inserts rows or updates the existing ones when they collide with a PRIMARY or UNIQUE key,
+     * using `INSERT ... ON DUPLICATE KEY UPDATE`.
+     * 
+     * `update` lists the columns to overwrite with the incoming values (all inserted columns by default),
+     * or maps columns to custom values such as `raw()` expressions. The incoming values are referenced with
+     * `VALUES(column)`, or with the MySQL 8.0.19+ row alias when `rowAlias` is given.
+     * 
+     * @param {Array<Object>} data - An array of objects representing the rows to insert or update.
+     * @param {UpsertOptions} options - `update`, `rowAlias` and `chunkSize` (default 1000).
+     * @returns {Promise<InsertResult>} - The insert id and the affected rows (1 per inserted row, 2 per updated row).
+     * 
+     * @example
+     * await db.table('products').upsert(
+     *     [{ sku: 'A-1', name: 'Pen', stock: 10 }],
+     *     { update: ['name', 'stock'] }
+     * );
+     * // INSERT INTO `products` (`sku`, `name`, `stock`) VALUES (?, ?, ?) ON DUPLICATE KEY UPDATE `name` = VALUES(`name`), `stock` = VALUES(`stock`)
+     * 
+     * @example
+     * await db.table('counters').upsert([{ key: 'visits', total: 1 }], { update: { total: raw('`total` + 1') }, rowAlias: 'new' });
+     */
+    async upsert(data: RowInput<T>[], options: UpsertOptions<T> = {}): Promise<InsertResult> {
+        const { update, rowAlias, chunkSize = 1000 } = options;
+        this.#validateRows(data, 'upsert');
+
+        return this.#writeRows(data, chunkSize, chunk => {
+            const insert = this.#buildInsert(chunk, 'INSERT');
+            const reference = (column: string) => rowAlias
+                ? `${escapeIdentifier(rowAlias)}.${escapeIdentifier(column)}`
+                : `VALUES(${escapeIdentifier(column)})`;
+
+            const assignments: CompiledQuery[] = [];
+            const { updatedAt } = this.#timestampColumns();
+            if (update && !Array.isArray(update)) {
+                for (const [column, value] of Object.entries(update)) {
+                    const compiled = compileValue(serializeValue(value));
+                    assignments.push({ sql: `${escapeIdentifier(column)} = ${compiled.sql}`, bindings: compiled.bindings });
+                }
+                if (updatedAt && !Object.prototype.hasOwnProperty.call(update, updatedAt)) {
+                    assignments.push({ sql: `${escapeIdentifier(updatedAt)} = ${reference(updatedAt)}`, bindings: [] });
+                }
+            } else {
+                const columns: string[] = update ?? [...new Set(chunk.flatMap(row => Object.keys(row)))];
+                if (updatedAt && !columns.includes(updatedAt)) {
+                    columns.push(updatedAt);
+                }
+                for (const column of columns) {
+                    assignments.push({ sql: `${escapeIdentifier(column)} = ${reference(column)}`, bindings: [] });
+                }
+            }
+
+            if (assignments.length === 0) {
+                throw new QueryBuilderError('The upsert method requires at least one column to update.');
+            }
+
+            return {
+                sql: `${insert.sql}${rowAlias ? ` AS ${escapeIdentifier(rowAlias)}` : ''} ON DUPLICATE KEY UPDATE ${assignments.map(assignment => assignment.sql).join(', ')}`,
+                bindings: [...insert.bindings, ...assignments.flatMap(assignment => assignment.bindings)],
+            };
+        });
+    }
+
+    /**
+     * Inserts rows with `INSERT IGNORE`, skipping the rows that collide with a PRIMARY or UNIQUE key.
      * 
      * @param {Array<Object>} data - An array of objects representing the rows to insert.
-     * @returns {Promise<Array<Object>>} - Returns an array of the inserted rows.
+     * @param {Object} options - `chunkSize` (default 1000).
+     * @returns {Promise<InsertResult>} - The insert id and the number of rows actually inserted.
      * 
      * @example
-     * const newUsers = await db.table('users').insert([
-     *     { name: 'Alice', age: 28 },
-     *     { name: 'Bob', age: 32 }
-     * ]);
-     * console.log(newUsers); // [{ id: 3, name: 'Alice', age: 28 }, { id: 4, name: 'Bob', age: 32 }]
+     * const result = await db.table('tags').insertIgnore([{ name: 'mysql' }, { name: 'node' }]);
+     * console.log(result); // { insertId: 7, affectedRows: 1 }
+     */
+    async insertIgnore(data: RowInput<T>[], options: { chunkSize?: number } = {}): Promise<InsertResult> {
+        this.#validateRows(data, 'insertIgnore');
+        return this.#writeRows(data, options.chunkSize ?? 1000, chunk => this.#buildInsert(chunk, 'INSERT IGNORE'));
+    }
+
+    /**
+     * Inserts rows with `REPLACE`: a row that collides with a PRIMARY or UNIQUE key is deleted and inserted again.
+     * 
+     * @param {Array<Object>} data - An array of objects representing the rows to write.
+     * @param {Object} options - `chunkSize` (default 1000).
+     * @returns {Promise<InsertResult>} - The insert id and the affected rows (deleted plus inserted).
+     * 
+     * @example
+     * await db.table('settings').replace([{ key: 'theme', value: 'dark' }]);
+     */
+    async replace(data: RowInput<T>[], options: { chunkSize?: number } = {}): Promise<InsertResult> {
+        this.#validateRows(data, 'replace');
+        return this.#writeRows(data, options.chunkSize ?? 1000, chunk => this.#buildInsert(chunk, 'REPLACE'));
+    }
+
+    /**
+     * Runs one compiled write per chunk of rows and adds up the results.
+     */
+    async #writeRows(data: RowInput<T>[], chunkSize: number, compile: (chunk: RowInput<T>[]) => CompiledQuery): Promise<InsertResult> {
+        if (!Number.isInteger(chunkSize) || chunkSize < 1) {
+            throw new QueryBuilderError('The chunkSize value must be a positive integer.');
+        }
+
+        data = await this.#beforeInsert(data);
+        const summary: InsertResult = { insertId: 0, affectedRows: 0 };
+        for (let start = 0; start < data.length; start += chunkSize) {
+            const { sql, bindings } = compile(data.slice(start, start + chunkSize));
+            const result: any = await this.#get_response(sql, bindings);
+            summary.insertId = summary.insertId || result.insertId;
+            summary.affectedRows += result.affectedRows;
+        }
+        await this.#runHook('afterInsert', data, summary);
+        return summary;
+    }
+
+    /**
+     * Runs the `beforeInsert` hook on copies of the rows, so that it can change them without touching the caller's objects.
+     */
+    async #beforeInsert(data: RowInput<T>[]): Promise<RowInput<T>[]> {
+        if (!this.options.hooks?.beforeInsert) {
+            return data;
+        }
+        const rows = data.map(row => ({ ...row }));
+        await this.#runHook('beforeInsert', rows);
+        return rows;
+    }
+
+    /**
+     * Runs a hook registered with `configureTable()`, passing this query as the last argument.
+     * A `before*` hook that returns `false` cancels the write.
+     */
+    async #runHook(name: keyof TableHooks, ...args: any[]): Promise<void> {
+        const hook = this.options.hooks?.[name] as ((...args: any[]) => any) | undefined;
+        if (!hook) {
+            return;
+        }
+        const result = await hook.call(this.options.hooks, ...args, this);
+        if (result === false && name.startsWith('before')) {
+            throw new WriteCancelledError(`The ${name} hook of the ${this.tableName} table cancelled the write.`);
+        }
+    }
+
+    /**
+     * Checks that `data` is an array of plain objects.
+     */
+    #validateRows(data: any, method: string) {
+        // Verifica si data NO es un array
+        if (!Array.isArray(data)) {
+            throw new QueryBuilderError(`The ${method} method requires an array of objects with key-value pairs.`);
+        }
+    
+        // Asegúrate de que el array contenga solo objetos
+        if (!data.every(item => typeof item === 'object' && item !== null && !Array.isArray(item))) {
+            throw new QueryBuilderError('The array must only contain plain objects.');
+        }
+    }
+
+    /**
+     * Compiles a multi-row `<verb> INTO table (columns) VALUES (...), (...)` statement.
+     * The column list is the union of the keys of every row; a row without one of them gets `DEFAULT`.
+     */
+    #buildInsert(rows: RowInput<T>[], verb: string): CompiledQuery {
+        const { createdAt, updatedAt } = this.#timestampColumns();
+        if (createdAt || updatedAt) {
+            const now = new Date();
+            rows = rows.map(row => ({
+                ...(createdAt ? { [createdAt]: now } : {}),
+                ...(updatedAt ? { [updatedAt]: now } : {}),
+                ...row,
+            }));
+        }
+        const columns = [...new Set(rows.flatMap(row => Object.keys(row)))];
+        const bindings: any[] = [];
+
+        const values = rows.map(row => {
+            const placeholders = columns.map(column => {
+                if (!Object.prototype.hasOwnProperty.call(row, column)) {
+                    return 'DEFAULT';
+                }
+                const value = compileValue(serializeValue((row as any)[column])); // undefined se inserta como NULL
+                bindings.push(...value.bindings);
+                return value.sql;
+            });
+            return `(${placeholders.join(', ')})`;
+        });
+
+        return {
+            sql: `${verb} INTO ${wrapIdentifier(this.tableName)} (${columns.map(column => escapeIdentifier(column)).join(', ')}) VALUES ${values.join(', ')}`,
+            bindings,
+        };
+    }
+
+    /**
+     * Reads `@@auto_increment_increment`, the step between the ids of the rows of one INSERT.
+     */
+    async #autoIncrementIncrement(): Promise<number> {
+        const [row]: any = await this.#get_response('SELECT @@auto_increment_increment AS `increment`');
+        return Number(row?.increment ?? 1);
+    }
+
+    /**
+     * Fetches the rows created by one multi-row INSERT from its `insertId`, with a new query so that this builder is left untouched.
+     */
+    async #fetchInsertedRange(key: string, result: any, increment: number): Promise<T[]> {
+        const query = new TableQuery<T>(this.tableName, this.conection).withTrashed();
+        const keyColumn = key as ColumnReference<T>;
+
+        if (increment === 1) {
+            return query.where(keyColumn, '>=', result.insertId).orderBy(keyColumn).limit(result.affectedRows).get();
+        }
+        // Con auto_increment_increment > 1 los ids de un mismo INSERT avanzan de increment en increment
+        const ids = Array.from({ length: result.affectedRows }, (_, index) => result.insertId + index * increment);
+        return query.whereIn(keyColumn, ids).orderBy(keyColumn).get();
+    }
+
+    /**
+     * Fetches the inserted rows by their key values, `chunkSize` keys per query,
+     * with new queries so that this builder is left untouched.
+     */
+    async #fetchInserted(key: string, keys: any[], chunkSize: number): Promise<T[]> {
+        const keyColumn = key as ColumnReference<T>;
+        const rows: T[] = [];
+
+        for (let start = 0; start < keys.length; start += chunkSize) {
+            const query = new TableQuery<T>(this.tableName, this.conection).withTrashed();
+            rows.push(...await query.whereIn(keyColumn, keys.slice(start, start + chunkSize)).orderBy(keyColumn).get());
+        }
+        return rows;
+    }
+
+    /**
+     * Updates the rows that match the defined conditions.
+     * Keys written as `column->path` change a single key of a JSON column (JSON_SET) instead of rewriting the document.
+     * An empty object is rejected, unless the table has an `updatedAt` timestamp column to touch.
+     * 
+     * @param {Object} data - The columns to update and their new values.
+     * @returns {Promise<Object>} - Returns the result of the update operation.
+     * 
+     * @example
+     * await db.table('users').where('id', '=', 1).update({ name: 'Alice', 'meta->plan': 'pro' });
+     * // UPDATE `users` SET `name` = ?, `meta` = JSON_SET(COALESCE(`meta`, JSON_OBJECT()), ?, ?) WHERE `id` = ?
      */
-    async update(data:any) {
-      if (typeof data !== 'object' || Array.isArray(data)) {
-          throw new Error('El método update requiere un objeto con pares clave-valor.');
+    async update(data: UpdateInput<T>) {
+      if (typeof data !== 'object' || data === null || Array.isArray(data)) {
+          throw new QueryBuilderError('The update method requires an object with key-value pairs.');
       }
 
-      const updates = Object.keys(data).map(key => {
-          const value = data[key];
-          return `${key} = ${typeof value === 'string' ? `'${value}'` : value}`;
-      }).join(', ');
+      data = { ...data };
+      await this.#runHook('beforeUpdate', data);
+      const result = await this.#update(data);
+      await this.#runHook('afterUpdate', data, result);
+      return result;
+    }
+
+    /**
+     * Compiles and runs the UPDATE, without hooks.
+     */
+    async #update(data: UpdateInput<T>) {
+      const { updatedAt } = this.#timestampColumns();
+      if (updatedAt && !Object.prototype.hasOwnProperty.call(data, updatedAt)) {
+          data = { ...data, [updatedAt]: new Date() };
+      }
 
-      const whereClauses = this.buildConditions();
+      const assignments: CompiledQuery[] = [];
+      // Las claves `columna->ruta` de una misma columna se combinan en un solo JSON_SET
+      const jsonSets = new Map<string, CompiledQuery>();
+      for (const [key, value] of Object.entries(data)) {
+          const json = splitJsonColumn(key);
+          if (json.path === null) {
+              const compiled = compileValue(serializeValue(value));
+              assignments.push({ sql: `${json.column} = ${compiled.sql}`, bindings: compiled.bindings });
+              continue;
+          }
+          let target = jsonSets.get(json.column);
+          if (!target) {
+              target = { sql: '', bindings: [] };
+              jsonSets.set(json.column, target);
+              assignments.push(target);
+          }
+          const compiled = compileJsonValue(value);
+          target.sql += `, ?, ${compiled.sql}`;
+          target.bindings.push(json.path, ...compiled.bindings);
+      }
+      for (const [column, target] of jsonSets) {
+          // COALESCE permite escribir claves en una columna que todavía es NULL
+          target.sql = `${column} = JSON_SET(COALESCE(${column}, JSON_OBJECT())${target.sql})`;
+      }
+      if (assignments.length === 0) {
+          throw new QueryBuilderError('The update method requires at least one column to assign.');
+      }
+      const updates = assignments.map(assignment => assignment.sql).join(', ');
 
-      if (whereClauses.length === 0) {
-          throw new Error('Debe especificar al menos una condición WHERE para realizar un update.');
+      if (this.conditions.length === 0) {
+          throw new MissingWhereError('An update requires at least one WHERE condition.', { sql: `UPDATE ${wrapIdentifier(this.tableName)} SET ${updates}` });
       }
 
-      const sqlQuery = `UPDATE \`${this.tableName}\` SET ${updates} WHERE ${whereClauses}`;
+      const whereClauses = this.#buildWhere();
+
+      const sqlQuery = `UPDATE ${wrapIdentifier(this.tableName)} SET ${updates} WHERE ${whereClauses.sql}`;
 
       try {
-          const result = await this.#get_response(sqlQuery);
+          const result = await this.#get_response(sqlQuery, [...assignments.flatMap(assignment => assignment.bindings), ...whereClauses.bindings]);
           return result;
       } catch (error) {
           //console.error('Error al actualizar los datos.', error);
@@ -800,6 +2852,8 @@ class TableQuery {
 
     /**
      * Deletes rows from the table based on the defined conditions.
+     * On tables with soft deletes the rows are only marked: the soft-delete column is set to the current time,
+     * the same value given to `updated_at` when the table has timestamps.
      * 
      * @returns {Promise<Object>} - Returns the result of the delete operation.
      * 
@@ -808,16 +2862,47 @@ class TableQuery {
      * console.log(result); // { affectedRows: 1 }
      */
     async delete() {
-        const whereClauses = this.buildConditions();
+        await this.#runHook('beforeDelete');
+        const column = this.#deletedAtColumn();
+        const { updatedAt } = this.#timestampColumns();
+        // deleted_at y updated_at reciben el mismo instante, enlazado como el resto de timestamps
+        const now = new Date();
+        const result = column === null
+            ? await this.#delete()
+            : await this.#update({ [column.split('.').pop() as string]: now, ...(updatedAt ? { [updatedAt]: now } : {}) } as RowInput<T>);
+        await this.#runHook('afterDelete', result);
+        return result;
+    }
+
+    /**
+     * Permanently deletes rows, also on tables with soft deletes.
+     * The soft-delete scope still applies: combine it with `withTrashed()` or `onlyTrashed()` to remove trashed rows.
+     * 
+     * @returns {Promise<Object>} - Returns the result of the delete operation.
+     * 
+     * @example
+     * await db.table('posts').onlyTrashed().where('deleted_at', '<', lastMonth).forceDelete();
+     */
+    async forceDelete() {
+        await this.#runHook('beforeDelete');
+        const result = await this.#delete();
+        await this.#runHook('afterDelete', result);
+        return result;
+    }
 
-        if (whereClauses.length === 0) {
-            throw new Error('Debe especificar al menos una condición WHERE para realizar un delete.');
+    /**
+     * Compiles and runs the DELETE, without hooks.
+     */
+    async #delete() {
+        if (this.conditions.length === 0) {
+            throw new MissingWhereError('A delete requires at least one WHERE condition.', { sql: `DELETE FROM ${wrapIdentifier(this.tableName)}` });
         }
 
-        const sqlQuery = `DELETE FROM \`${this.tableName}\` WHERE ${whereClauses}`;
+        const whereClauses = this.#buildWhere();
+        const sqlQuery = `DELETE FROM ${wrapIdentifier(this.tableName)} WHERE ${whereClauses.sql}`;
 
         try {
-            const result = await this.#get_response(sqlQuery);
+            const result = await this.#get_response(sqlQuery, whereClauses.bindings);
             return result;
         } catch (error) {
             //console.error('Error al eliminar los datos.', error);
@@ -825,59 +2910,36 @@ class TableQuery {
         }
     }
 
-    async #get_response(sql:string) {
-        const pool = await this.conection;
-        if(!pool){
-            throw new Error('No se ha establecido una conexión a la base de datos.');
-        }
-        try {
-            const [result] = await pool.query(sql);
-            return result;
-        } catch (error:any) {
-            if (error.code === 'ER_BAD_DB_ERROR') {
-                try {
-                    if(!this.conection){
-                        throw new Error('No se ha establecido una conexión a la base de datos.');
-                    }
-                    await this.conection.end();
-                    this.conection = createPool({
-                        host: MYSQL_HOST,
-                        user: MYSQL_USER,
-                        password: MYSQL_PASSWORD,
-                        port: Number(MYSQL_PORT),
-                    });
-                    const pool_aux = await this.conection;
-                    await pool_aux.query(`CREATE DATABASE \`${MYSQL_DATABASE}\``);
-                    await this.conection.end();
-                    this.conection = createPool({
-                        host: MYSQL_HOST,
-                        user: MYSQL_USER,
-                        password: MYSQL_PASSWORD,
-                        database: MYSQL_DATABASE,
-                        port: Number(MYSQL_PORT),
-                    });
-                    const pool = await this.conection;
-                    const [result] = await pool.query(sql);
-                    return result;
-                } catch (error) {
-                    //console.error('Error al crear la base de datos:', error);
-                    throw error;
-                }
-            }
-            //console.error('Error al ejecutar la consulta.', error);
-            throw error;
+    /**
+     * Restores soft-deleted rows that match the conditions by clearing their soft-delete column.
+     * 
+     * @returns {Promise<Object>} - Returns the result of the update operation.
+     * 
+     * @example
+     * await db.table('posts').where('id', '=', 1).restore();
+     */
+    async restore() {
+        const column = this.#requireSoftDeletes('restore');
+        this.trashed = 'only';
+        return this.update({ [column]: null } as RowInput<T>);
+    }
+
+    async #get_response(sql:string, bindings: any[] = []) {
+        if(!this.conection){
+            throw new ConnectionError('The database connection has not been established.', { sql, bindings });
         }
+        return this.conection.execute(sql, bindings);
     }
 }
 
 /**
  * Class to manage table columns, allowing adding, editing, or deleting columns.
  */
-class Columns {
-    private conection: Pool | null; 
+export class Columns {
+    private conection: QueryExecutor | null; 
     private tableName: string; // Nombre de la tabla
 
-    constructor(tableName: string, conection: Pool | null = null) {
+    constructor(tableName: string, conection: QueryExecutor | null = null) {
         this.tableName = tableName;
         this.conection = conection; // Inicializar GROUP BY
     }
@@ -894,12 +2956,12 @@ class Columns {
     async get(){
         try {
             // Verifica si la tabla ya existe
-            const tableExistsQuery = `SHOW TABLES LIKE '${this.tableName}'`;
-            const tableExistsResult:any = await this.#get_response(tableExistsQuery);
+            const tableExistsQuery = 'SHOW TABLES LIKE ?';
+            const tableExistsResult:any = await this.#get_response(tableExistsQuery, [this.tableName]);
     
             if (tableExistsResult && tableExistsResult.length > 0) {
                 // La tabla existe, obtenemos su estructura actual
-                const existingFieldsQuery = `SHOW COLUMNS FROM \`${this.tableName}\``;
+                const existingFieldsQuery = `SHOW COLUMNS FROM ${wrapIdentifier(this.tableName)}`;
                 const existingFields:any = await this.#get_response(existingFieldsQuery);
     
                 // Mapeamos los campos actuales en un formato más manejable
@@ -921,125 +2983,94 @@ class Columns {
     }
     
     /**
-     * Adds new columns to the table.
+     * Adds new columns to the table. Fields that already exist are skipped;
+     * with a callback, every column declared on the `TableBuilder` is added.
      * 
-     * @param {Array<Field>} fields - An array of objects defining the new columns.
+     * @param {Array<Field> | Function} fields - An array of objects defining the new columns, or a callback receiving a `TableBuilder`.
      * @returns {Promise<boolean>} - Returns `true` if the operation was successful.
      * 
      * @example
      * await db.table('users').columns().add([
      *     { name: 'email', type: 'VARCHAR', length: 255, defaultValue: 'example@example.com' }
      * ]);
+     * 
+     * @example
+     * await db.table('users').columns().add(t => {
+     *     t.string('phone', 20).nullable().after('email');
+     * });
      */
-    async add(fields: Field[]) {
+    async add(fields: Field[] | ((table: TableBuilder) => void)) {
         try {
-            const currentFields = await this.get();
-    
-            for (const field of fields) {
-                const { name, type, length, defaultValue, options, foreign } = field;
-                const fullType = (length && type !== "TEXT") ? `${type}(${length})` : type;
-    
-                if (!currentFields[name]) {
-                    // El campo no existe, agregamos una nueva columna
-                    let alterQuery = `ALTER TABLE \`${this.tableName}\` ADD COLUMN \`${name}\` ${fullType}`;
-                    
-                    if(defaultValue){
-                        alterQuery += (['varchar', 'char', 'text', 'enum', 'set'].includes(type)) 
-                        ? (defaultValue ? ` DEFAULT '${defaultValue}'` : ` DEFAULT NULL`)
-                        : (defaultValue === 'NONE' || defaultValue === null) 
-                            ? ''
-                            : (defaultValue ? ` DEFAULT ${defaultValue}` : ` DEFAULT NULL`);
-                    }
-
-                    if (options) {
-                        if (options.includes('primary')) {
-                            alterQuery += ' PRIMARY KEY';
-                        }
-                        if (options.includes('autoincrement')) {
-                            alterQuery += ' AUTO_INCREMENT';
-                        }
-                        if (options.includes('unique')) {
-                            alterQuery += ' UNIQUE';
-                        }
-                    }
-                    if (foreign) {
-                        alterQuery += `, ADD FOREIGN KEY (\`${name}\`) REFERENCES \`${foreign.table}\`(\`${foreign.column}\`)`;
-                    }
+            const table = new TableBuilder(this.tableName);
+            if (typeof fields === 'function') {
+                fields(table);
+            } else {
+                const currentFields = await this.get();
+                // Solo se agregan los campos que aún no existen
+                const added = fields.filter(field => !currentFields[field.name]);
+                added.forEach(field => fieldColumn(table, field));
+                // Un índice FULLTEXT con nombre también incluye las columnas que ya existían
+                fieldIndexes(table, fields.filter(field => added.includes(field) || (typeof field.fullText === 'string' && added.some(other => other.fullText === field.fullText))));
+            }
 
-                    await this.#get_response(alterQuery);
-                }
+            const query = table.toAlterSql();
+            if (query) {
+                await this.#get_response(query.sql, query.bindings);
             }
     
             return true;
         } catch (error) {
-            console.error('Error al agregar columnas.', error);
             throw error;
         }
     }
     
     /**
-     * Edits existing columns in the table.
+     * Edits existing columns in the table. Fields whose definition already matches are skipped;
+     * with a callback, every column declared on the `TableBuilder` is modified.
      * 
-     * @param {Array<Field>} fields - An array of objects defining the columns to edit.
+     * @param {Array<Field> | Function} fields - An array of objects defining the columns to edit, or a callback receiving a `TableBuilder`.
      * @returns {Promise<boolean>} - Returns `true` if the operation was successful.
      * 
      * @example
      * await db.table('users').columns().edit([
      *     { name: 'email', type: 'VARCHAR', length: 255, defaultValue: 'new@example.com' }
      * ]);
+     * 
+     * @example
+     * await db.table('users').columns().edit(t => {
+     *     t.string('email', 191).notNull();
+     * });
      */
-    async edit(fields: Field[]) {
+    async edit(fields: Field[] | ((table: TableBuilder) => void)) {
         try {
-            const currentFields = await this.get();
-    
-            for (const field of fields) {
-                const { name, type, length, defaultValue, options, foreign } = field;
-                const fullType = (length && type !== "TEXT") ? `${type}(${length})` : type;
-    
-                if (currentFields[name]) {
-                    // El campo existe, verificamos si tiene diferencias
+            const table = new TableBuilder(this.tableName, 'modify');
+            if (typeof fields === 'function') {
+                fields(table);
+            } else {
+                const currentFields = await this.get();
+        
+                for (const field of fields) {
+                    const { name, type, length, defaultValue, options } = field;
+                    const fullType = (length && type !== "TEXT") ? `${type}(${length})` : type;
                     const existingField = currentFields[name];
-
-                    if (existingField.type !== fullType || existingField.defaultValue !== defaultValue ||
+        
+                    // El campo existe, verificamos si tiene diferencias
+                    if (existingField && (existingField.type !== fullType || existingField.defaultValue !== defaultValue ||
                         (options && options.includes('autoincrement') && existingField.extra !== 'auto_increment') ||
                         (options && options.includes('unique') && existingField.key !== 'UNI') ||
-                        (options && options.includes('primary') && existingField.key !== 'PRI')) { 
-
-                        // Modificamos la columna existente
-                        let modifyQuery = `ALTER TABLE \`${this.tableName}\` MODIFY COLUMN \`${name}\` ${fullType}`;
-
-                        if(existingField.defaultValue !== defaultValue){
-                            modifyQuery += (['varchar', 'char', 'text', 'enum', 'set'].includes(type)) 
-                            ? (defaultValue ? ` DEFAULT '${defaultValue}'` : ` DEFAULT NULL`)
-                            : (defaultValue === 'NONE' || defaultValue === null) 
-                                ? ''
-                                : (defaultValue ? ` DEFAULT ${defaultValue}` : ` DEFAULT NULL`);
-                        }
-
-                        if (options) {
-                            if (options.includes('primary')) {
-                                modifyQuery += ' PRIMARY KEY';
-                            }
-                            if (options.includes('autoincrement')) {
-                                modifyQuery += ' AUTO_INCREMENT';
-                            }
-                            if (options.includes('unique')) {
-                                modifyQuery += ' UNIQUE';
-                            }
-                        }
-                        
-                        if (foreign) {
-                            modifyQuery += `, ADD FOREIGN KEY (\`${name}\`) REFERENCES \`${foreign.table}\`(\`${foreign.column}\`)`;
-                        }
-
-                        await this.#get_response(modifyQuery);
+                        (options && options.includes('primary') && existingField.key !== 'PRI'))) {
+                        fieldColumn(table, field, existingField.defaultValue !== defaultValue);
                     }
                 }
             }
+
+            const query = table.toAlterSql();
+            if (query) {
+                await this.#get_response(query.sql, query.bindings);
+            }
     
             return true;
         } catch (error) {
-            console.error('Error al editar columnas.', error);
             throw error;
         }
     }
@@ -1060,7 +3091,7 @@ class Columns {
             for (const key of fields) {
                 if (currentFields[key]) {
                     // Eliminar columna existente
-                    let dropQuery = `ALTER TABLE ${this.tableName} DROP COLUMN \`${key}\`;`;
+                    let dropQuery = `ALTER TABLE ${wrapIdentifier(this.tableName)} DROP COLUMN ${escapeIdentifier(key)};`;
                     await this.#get_response(dropQuery);
                 }
             }
@@ -1072,48 +3103,11 @@ class Columns {
         }
     }
 
-    async #get_response(sql:string) {
-        const pool = await this.conection;
-        if(!pool){
-            throw new Error('No se ha establecido una conexión a la base de datos.');
-        }
-        try {
-            const [result] = await pool.query(sql);
-            return result;
-        } catch (error:any) {
-            if (error.code === 'ER_BAD_DB_ERROR') {
-                try {
-                    if(!this.conection){
-                        throw new Error('No se ha establecido una conexión a la base de datos.');
-                    }
-                    await this.conection.end();
-                    this.conection = createPool({
-                        host: MYSQL_HOST,
-                        user: MYSQL_USER,
-                        password: MYSQL_PASSWORD,
-                        port: Number(MYSQL_PORT),
-                    });
-                    const pool_aux = await this.conection;
-                    await pool_aux.query(`CREATE DATABASE \`${MYSQL_DATABASE}\``);
-                    await this.conection.end();
-                    this.conection = createPool({
-                        host: MYSQL_HOST,
-                        user: MYSQL_USER,
-                        password: MYSQL_PASSWORD,
-                        database: MYSQL_DATABASE,
-                        port: Number(MYSQL_PORT),
-                    });
-                    const pool = await this.conection;
-                    const [result] = await pool.query(sql);
-                    return result;
-                } catch (error) {
-                    //console.error('Error al crear la base de datos:', error);
-                    throw error;
-                }
-            }
-            //console.error('Error al ejecutar la consulta.', error);
-            throw error;
+    async #get_response(sql:string, bindings: any[] = []) {
+        if(!this.conection){
+            throw new ConnectionError('The database connection has not been established.', { sql, bindings });
         }
+        return this.conection.execute(sql, bindings);
     }
 }
 
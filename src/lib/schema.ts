@@ -0,0 +1,1005 @@
+import { escape, format } from 'mysql2/promise';
+import type { CheckInfo, ColumnInfo, CompiledQuery, CreateTableOptions, Field, ForeignKeyInfo, IndexInfo, QueryExecutor, ReferentialAction, SchemaDiffOptions, SchemaStatement, SyncOptions, SyncResult, TableDefinitions, TableInfo } from '../@types/Field.js';
+import { Raw, escapeIdentifier, wrapIdentifier } from './identifiers.js';
+import { ConnectionError, QueryBuilderError } from './errors.js';
+import { introspect } from './introspection.js';
+import { diffSchema } from './diff.js';
+
+const REFERENTIAL_ACTIONS = ['CASCADE', 'SET NULL', 'RESTRICT', 'NO ACTION', 'SET DEFAULT'];
+
+// Motores, charsets y collations: solo letras, números, espacios y guiones bajos
+const KEYWORD = /^[A-Za-z0-9_ ]+$/;
+
+// Tipos de columna, opcionalmente con parámetros numéricos: DECIMAL(10, 2)
+const COLUMN_TYPE = /^[A-Za-z0-9_ ]+(\([0-9, ]+\))?$/;
+
+function keyword(value: string, kind: string, pattern: RegExp = KEYWORD): string {
+    if (!pattern.test(String(value))) {
+        throw new QueryBuilderError(`Invalid ${kind}: ${value}.`);
+    }
+    return String(value).trim();
+}
+
+function referentialAction(action: string): string {
+    const value = String(action).trim().toUpperCase();
+    if (!REFERENTIAL_ACTIONS.includes(value)) {
+        throw new QueryBuilderError(`Invalid referential action: ${action}.`);
+    }
+    return value;
+}
+
+function columnList(columns: string[]): string {
+    return columns.map(column => escapeIdentifier(column)).join(', ');
+}
+
+// Sinónimos de tipos tal como los reporta information_schema
+const TYPE_ALIASES: Record<string, string> = {
+    integer: 'int', bool: 'tinyint', boolean: 'tinyint', dec: 'decimal', numeric: 'decimal', fixed: 'decimal',
+    real: 'double', 'double precision': 'double', character: 'char',
+};
+
+/**
+ * Normalizes a type name to the `DATA_TYPE` reported by `information_schema` (`INTEGER` -> `int`).
+ */
+export function normalizeType(type: string): string {
+    const name = String(type).trim().toLowerCase().replace(/\s+/g, ' ');
+    return TYPE_ALIASES[name] ?? name;
+}
+
+// Tipo de índice del modelo de introspección según la cláusula DDL
+const INDEX_TYPES: Record<string, IndexInfo['type']> = {
+    'PRIMARY KEY': 'PRIMARY', 'UNIQUE KEY': 'UNIQUE', 'KEY': 'INDEX', 'FULLTEXT KEY': 'FULLTEXT',
+};
+
+function expression(value: string | Raw): string {
+    return value instanceof Raw ? format(value.sql, value.bindings) : value;
+}
+
+/**
+ * Definition of a single column, built fluently from the `TableBuilder` type helpers.
+ *
+ * @example
+ * t.string('email', 191).notNull().unique().comment('Login email');
+ * t.bigInteger('role_id').unsigned().references('roles').onDelete('cascade');
+ */
+export class ColumnBuilder {
+    readonly name: string;
+    private type: string;
+    private parameters: any[];
+    private _unsigned = false;
+    private _nullable: boolean | null = null;
+    private _default: { value: any } | null = null;
+    private _onUpdate: Raw | null = null;
+    private _autoIncrement = false;
+    private _primary = false;
+    private _unique = false;
+    private _index = false;
+    private _fullText = false;
+    private _charset: string | null = null;
+    private _collation: string | null = null;
+    private _comment: string | null = null;
+    private _position: string | null = null;
+    private _change = false;
+    private _references: { table: string, column: string, onDelete: string | null, onUpdate: string | null } | null = null;
+
+    constructor(name: string, type: string, parameters: any[] = []) {
+        this.name = name;
+        this.type = keyword(type, 'column type', COLUMN_TYPE).toUpperCase();
+        this.parameters = parameters;
+    }
+
+    /** Marks a numeric column as `UNSIGNED`. */
+    unsigned(): this {
+        this._unsigned = true;
+        return this;
+    }
+
+    /** Adds `NOT NULL`. */
+    notNull(): this {
+        this._nullable = false;
+        return this;
+    }
+
+    /** Adds an explicit `NULL`. */
+    nullable(): this {
+        this._nullable = true;
+        return this;
+    }
+
+    /**
+     * Sets the default value. Values are escaped as literals; use `raw()` for expressions.
+     *
+     * @example
+     * t.string('status', 20).default('active');
+     * t.timestamp('created_at').default(raw('CURRENT_TIMESTAMP'));
+     */
+    default(value: any): this {
+        this._default = { value };
+        return this;
+    }
+
+    /** Defaults the column to `CURRENT_TIMESTAMP`. */
+    useCurrent(): this {
+        return this.default(new Raw('CURRENT_TIMESTAMP'));
+    }
+
+    /** Adds `ON UPDATE CURRENT_TIMESTAMP`. */
+    useCurrentOnUpdate(): this {
+        this._onUpdate = new Raw('CURRENT_TIMESTAMP');
+        return this;
+    }
+
+    /** Adds `AUTO_INCREMENT`. */
+    autoIncrement(): this {
+        this._autoIncrement = true;
+        return this;
+    }
+
+    /** Declares the column as the primary key. Use `t.primary([...])` for composite keys. */
+    primary(): this {
+        this._primary = true;
+        return this;
+    }
+
+    /** Adds a unique index on the column. */
+    unique(): this {
+        this._unique = true;
+        return this;
+    }
+
+    /** Adds a secondary index on the column. */
+    index(): this {
+        this._index = true;
+        return this;
+    }
+
+    /** Adds a FULLTEXT index on the column (use `t.fullText([...])` for an index over several columns). */
+    fullText(): this {
+        this._fullText = true;
+        return this;
+    }
+
+    charset(charset: string): this {
+        this._charset = keyword(charset, 'charset');
+        return this;
+    }
+
+    collation(collation: string): this {
+        this._collation = keyword(collation, 'collation');
+        return this;
+    }
+
+    comment(comment: string): this {
+        this._comment = comment;
+        return this;
+    }
+
+    /** Places the column after another one (only when altering a table). */
+    after(column: string): this {
+        this._position = `AFTER ${escapeIdentifier(column)}`;
+        return this;
+    }
+
+    /** Places the column first (only when altering a table). */
+    first(): this {
+        this._position = 'FIRST';
+        return this;
+    }
+
+    /** Modifies an existing column instead of adding it (only when altering a table). */
+    change(): this {
+        this._change = true;
+        return this;
+    }
+
+    /**
+     * Adds a foreign key from this column.
+     *
+     * @param {string} table - The referenced table.
+     * @param {string} column - The referenced column (defaults to `id`).
+     */
+    references(table: string, column: string = 'id'): this {
+        this._references = { table, column, onDelete: null, onUpdate: null };
+        return this;
+    }
+
+    /** Action of the foreign key when the referenced row is deleted. */
+    onDelete(action: ReferentialAction): this {
+        if (!this._references) {
+            throw new QueryBuilderError(`Column ${this.name} must call references() before onDelete().`);
+        }
+        this._references.onDelete = referentialAction(action);
+        return this;
+    }
+
+    /** Action of the foreign key when the referenced key is updated. */
+    onUpdate(action: ReferentialAction): this {
+        if (!this._references) {
+            throw new QueryBuilderError(`Column ${this.name} must call references() before onUpdate().`);
+        }
+        this._references.onUpdate = referentialAction(action);
+        return this;
+    }
+
+    get isChange(): boolean {
+        return this._change;
+    }
+
+    /**
+     * Compiles the column definition (`name TYPE ...`), with its values escaped inline.
+     */
+    compile(): string {
+        let sql = `${escapeIdentifier(this.name)} ${this.type}`;
+
+        if (this.parameters.length > 0) {
+            // ENUM y SET escriben sus valores como texto; el resto son longitudes o precisiones numéricas
+            if (['ENUM', 'SET'].includes(this.type)) {
+                sql += `(${this.parameters.map(value => escape(String(value))).join(', ')})`;
+            } else {
+                sql += `(${this.parameters.map(value => Number(value)).join(', ')})`;
+            }
+        }
+        if (this._unsigned) sql += ' UNSIGNED';
+        if (this._charset) sql += ` CHARACTER SET ${this._charset}`;
+        if (this._collation) sql += ` COLLATE ${this._collation}`;
+        if (this._nullable !== null) sql += this._nullable ? ' NULL' : ' NOT NULL';
+        if (this._default) {
+            const value = this._default.value;
+            sql += ` DEFAULT ${value instanceof Raw ? expression(value) : escape(value === undefined ? null : value)}`;
+        }
+        if (this._onUpdate) sql += ` ON UPDATE ${this._onUpdate.sql}`;
+        if (this._autoIncrement) sql += ' AUTO_INCREMENT';
+        if (this._unique) sql += ' UNIQUE';
+        if (this._primary) sql += ' PRIMARY KEY';
+        if (this._comment !== null) sql += ` COMMENT ${escape(this._comment)}`;
+        if (this._position) sql += ` ${this._position}`;
+
+        return sql;
+    }
+
+    /**
+     * Describes the column with the same model returned by introspection, so both can be compared.
+     *
+     * @param {number} position - The position of the column in the table (1-based).
+     * @param {boolean} primaryKey - Whether the column belongs to the primary key (primary key columns are never nullable).
+     * @returns {ColumnInfo} - The column model.
+     */
+    toColumnInfo(position: number, primaryKey: boolean = this._primary): ColumnInfo {
+        const [, baseType, inlineParameters] = this.type.match(/^(.+?)\s*(?:\(([0-9, ]+)\))?$/) ?? [, this.type, undefined];
+        const alias = String(baseType).trim().toLowerCase();
+        const dataType = normalizeType(alias);
+        const parameters = this.parameters.length > 0 || !inlineParameters
+            ? this.parameters
+            : inlineParameters.split(',').map(value => Number(value));
+        const numeric = parameters.map(value => Number(value));
+        const values = ['enum', 'set'].includes(dataType) ? parameters.map(value => String(value)) : null;
+        const display = ['bool', 'boolean'].includes(alias) ? [1] : (values ? [] : numeric);
+
+        let length: number | null = null;
+        let precision: number | null = null;
+        let scale: number | null = null;
+        if (['char', 'varchar', 'binary', 'varbinary'].includes(dataType)) {
+            length = numeric[0] ?? (['char', 'binary'].includes(dataType) ? 1 : null);
+        } else if (dataType === 'decimal') {
+            precision = numeric[0] ?? 10;
+            scale = numeric[1] ?? 0;
+        } else if (['datetime', 'timestamp', 'time'].includes(dataType)) {
+            precision = numeric[0] ?? 0;
+        } else if (dataType === 'bit') {
+            precision = numeric[0] ?? 1;
+        }
+
+        let defaultValue: string | null = null;
+        let defaultIsExpression = false;
+        if (this._default && this._default.value !== null && this._default.value !== undefined) {
+            const value = this._default.value;
+            if (value instanceof Raw) {
+                defaultValue = expression(value);
+                defaultIsExpression = true;
+            } else {
+                defaultValue = typeof value === 'boolean' ? (value ? '1' : '0') : String(value);
+            }
+        }
+
+        const typeParameters = values
+            ? `(${values.map(value => `'${value.replace(/'/g, "''")}'`).join(',')})`
+            : (display.length > 0 ? `(${display.join(',')})` : '');
+
+        return {
+            name: this.name,
+            position,
+            type: `${dataType}${typeParameters}${this._unsigned ? ' unsigned' : ''}`,
+            dataType,
+            length,
+            precision,
+            scale,
+            unsigned: this._unsigned,
+            values,
+            nullable: this._nullable ?? !primaryKey,
+            defaultValue,
+            defaultIsExpression,
+            autoIncrement: this._autoIncrement,
+            onUpdate: this._onUpdate ? this._onUpdate.sql : null,
+            charset: this._charset,
+            collation: this._collation,
+            comment: this._comment ?? '',
+        };
+    }
+
+    /**
+     * The primary key and unique index declared inline on the column.
+     */
+    inlineIndexes(): IndexInfo[] {
+        const indexes: IndexInfo[] = [];
+        if (this._primary) indexes.push({ name: 'PRIMARY', type: 'PRIMARY', columns: [this.name] });
+        // MySQL nombra los índices UNIQUE en línea con el nombre de la columna
+        if (this._unique) indexes.push({ name: this.name, type: 'UNIQUE', columns: [this.name] });
+        return indexes;
+    }
+
+    /**
+     * The table-level definitions implied by the column (`index()`, `fullText()` and `references()`).
+     */
+    constraints(table: TableBuilder) {
+        if (this._index) {
+            table.index([this.name]);
+        }
+        if (this._fullText) {
+            table.fullText([this.name]);
+        }
+        if (this._references) {
+            const foreign = table.foreign([this.name]).references([this._references.column]).on(this._references.table);
+            if (this._references.onDelete) foreign.onDelete(this._references.onDelete as ReferentialAction);
+            if (this._references.onUpdate) foreign.onUpdate(this._references.onUpdate as ReferentialAction);
+        }
+    }
+}
+
+/**
+ * Table-level foreign key declared with `t.foreign([...])`.
+ *
+ * @example
+ * t.foreign(['order_id', 'product_id']).references(['order_id', 'product_id']).on('order_items').onDelete('cascade');
+ */
+export class ForeignKeyBuilder {
+    private columns: string[];
+    private name: string;
+    private referencedTable: string | null = null;
+    private referencedColumns: string[] = ['id'];
+    private _onDelete: string | null = null;
+    private _onUpdate: string | null = null;
+
+    constructor(columns: string[], name: string) {
+        this.columns = columns;
+        this.name = name;
+    }
+
+    references(columns: string | string[]): this {
+        this.referencedColumns = Array.isArray(columns) ? columns : [columns];
+        return this;
+    }
+
+    on(table: string): this {
+        this.referencedTable = table;
+        return this;
+    }
+
+    onDelete(action: ReferentialAction): this {
+        this._onDelete = referentialAction(action);
+        return this;
+    }
+
+    onUpdate(action: ReferentialAction): this {
+        this._onUpdate = referentialAction(action);
+        return this;
+    }
+
+    compile(): string {
+        if (!this.referencedTable) {
+            throw new QueryBuilderError(`Foreign key ${this.name} must reference a table with on().`);
+        }
+        let sql = `CONSTRAINT ${escapeIdentifier(this.name)} FOREIGN KEY (${columnList(this.columns)}) ` +
+            `REFERENCES ${wrapIdentifier(this.referencedTable)} (${columnList(this.referencedColumns)})`;
+        if (this._onDelete) sql += ` ON DELETE ${this._onDelete}`;
+        if (this._onUpdate) sql += ` ON UPDATE ${this._onUpdate}`;
+        return sql;
+    }
+
+    /**
+     * Describes the foreign key with the same model returned by introspection.
+     */
+    toForeignKeyInfo(): ForeignKeyInfo {
+        return {
+            name: this.name,
+            columns: this.columns,
+            referencedTable: String(this.referencedTable).split('.').pop() as string,
+            referencedColumns: this.referencedColumns,
+            onDelete: this._onDelete ?? 'NO ACTION',
+            onUpdate: this._onUpdate ?? 'NO ACTION',
+        };
+    }
+}
+
+/**
+ * Collects the columns, indexes, constraints and options of a table,
+ * and compiles them into a `CREATE TABLE` or `ALTER TABLE` statement.
+ *
+ * @example
+ * const table = new TableBuilder('users');
+ * table.id();
+ * table.string('email', 191).notNull().unique();
+ * table.toCreateSql(); // { sql: 'CREATE TABLE `users` (...)', bindings: [] }
+ */
+export class TableBuilder {
+    readonly tableName: string;
+    private columnAction: 'add' | 'modify';
+    private columns: ColumnBuilder[] = [];
+    private indexes: { type: string, columns: string[], name: string | null }[] = [];
+    private foreigns: ForeignKeyBuilder[] = [];
+    private checks: { expression: string, name: string | null }[] = [];
+    private drops: string[] = [];
+    private collected = false;
+    private options: { engine?: string, charset?: string, collation?: string, comment?: string } = {};
+
+    /**
+     * @param {string} tableName - The table name.
+     * @param {'add' | 'modify'} columnAction - Whether the declared columns are added or modified when altering.
+     */
+    constructor(tableName: string, columnAction: 'add' | 'modify' = 'add') {
+        this.tableName = tableName;
+        this.columnAction = columnAction;
+    }
+
+    /**
+     * Declares a column of any type.
+     *
+     * @param {string} name - The column name.
+     * @param {string} type - The SQL type (`VARCHAR`, `INT`, ...).
+     * @param {any[]} parameters - Length, precision or ENUM values.
+     */
+    column(name: string, type: string, ...parameters: any[]): ColumnBuilder {
+        const column = new ColumnBuilder(name, type, parameters.filter(value => value !== undefined && value !== null));
+        if (this.columnAction === 'modify') {
+            column.change();
+        }
+        this.columns.push(column);
+        return column;
+    }
+
+    /** `BIGINT UNSIGNED AUTO_INCREMENT PRIMARY KEY` column. */
+    id(name: string = 'id'): ColumnBuilder {
+        return this.column(name, 'BIGINT').unsigned().autoIncrement().primary();
+    }
+
+    /** `INT UNSIGNED AUTO_INCREMENT PRIMARY KEY` column. */
+    increments(name: string): ColumnBuilder {
+        return this.column(name, 'INT').unsigned().autoIncrement().primary();
+    }
+
+    /** `BIGINT UNSIGNED` column, meant to be followed by `references()`. */
+    foreignId(name: string): ColumnBuilder {
+        return this.column(name, 'BIGINT').unsigned();
+    }
+
+    tinyInteger(name: string): ColumnBuilder {
+        return this.column(name, 'TINYINT');
+    }
+
+    smallInteger(name: string): ColumnBuilder {
+        return this.column(name, 'SMALLINT');
+    }
+
+    integer(name: string): ColumnBuilder {
+        return this.column(name, 'INT');
+    }
+
+    bigInteger(name: string): ColumnBuilder {
+        return this.column(name, 'BIGINT');
+    }
+
+    decimal(name: string, precision: number = 8, scale: number = 2): ColumnBuilder {
+        return this.column(name, 'DECIMAL', precision, scale);
+    }
+
+    float(name: string): ColumnBuilder {
+        return this.column(name, 'FLOAT');
+    }
+
+    double(name: string): ColumnBuilder {
+        return this.column(name, 'DOUBLE');
+    }
+
+    boolean(name: string): ColumnBuilder {
+        return this.column(name, 'TINYINT', 1);
+    }
+
+    string(name: string, length: number = 255): ColumnBuilder {
+        return this.column(name, 'VARCHAR', length);
+    }
+
+    char(name: string, length: number = 255): ColumnBuilder {
+        return this.column(name, 'CHAR', length);
+    }
+
+    uuid(name: string = 'uuid'): ColumnBuilder {
+        return this.column(name, 'CHAR', 36);
+    }
+
+    text(name: string): ColumnBuilder {
+        return this.column(name, 'TEXT');
+    }
+
+    mediumText(name: string): ColumnBuilder {
+        return this.column(name, 'MEDIUMTEXT');
+    }
+
+    longText(name: string): ColumnBuilder {
+        return this.column(name, 'LONGTEXT');
+    }
+
+    json(name: string): ColumnBuilder {
+        return this.column(name, 'JSON');
+    }
+
+    binary(name: string): ColumnBuilder {
+        return this.column(name, 'BLOB');
+    }
+
+    enum(name: string, values: string[]): ColumnBuilder {
+        return this.column(name, 'ENUM', ...values);
+    }
+
+    date(name: string): ColumnBuilder {
+        return this.column(name, 'DATE');
+    }
+
+    time(name: string): ColumnBuilder {
+        return this.column(name, 'TIME');
+    }
+
+    dateTime(name: string, precision?: number): ColumnBuilder {
+        return this.column(name, 'DATETIME', precision);
+    }
+
+    timestamp(name: string, precision?: number): ColumnBuilder {
+        return this.column(name, 'TIMESTAMP', precision);
+    }
+
+    /** Adds `created_at` and `updated_at` columns maintained by MySQL. */
+    timestamps(): void {
+        this.timestamp('created_at').nullable().useCurrent();
+        this.timestamp('updated_at').nullable().useCurrent().useCurrentOnUpdate();
+    }
+
+    /**
+     * Declares the primary key (composite keys supported).
+     *
+     * @example
+     * t.primary(['order_id', 'product_id']);
+     */
+    primary(columns: string[]): this {
+        this.indexes.push({ type: 'PRIMARY KEY', columns, name: null });
+        return this;
+    }
+
+    unique(columns: string[], name?: string): this {
+        this.indexes.push({ type: 'UNIQUE KEY', columns, name: name ?? this.#indexName(columns, 'unique') });
+        return this;
+    }
+
+    index(columns: string[], name?: string): this {
+        this.indexes.push({ type: 'KEY', columns, name: name ?? this.#indexName(columns, 'index') });
+        return this;
+    }
+
+    fullText(columns: string[], name?: string): this {
+        this.indexes.push({ type: 'FULLTEXT KEY', columns, name: name ?? this.#indexName(columns, 'fulltext') });
+        return this;
+    }
+
+    /**
+     * Declares a foreign key over one or more columns.
+     *
+     * @example
+     * t.foreign(['user_id']).references('id').on('users').onDelete('cascade');
+     */
+    foreign(columns: string[], name?: string): ForeignKeyBuilder {
+        const foreign = new ForeignKeyBuilder(columns, name ?? this.#indexName(columns, 'foreign'));
+        this.foreigns.push(foreign);
+        return foreign;
+    }
+
+    /**
+     * Adds a CHECK constraint. Strings are written as-is, so never build them from user input.
+     *
+     * @example
+     * t.check('age >= 18', 'users_age_check');
+     */
+    check(condition: string | Raw, name?: string): this {
+        this.checks.push({ expression: expression(condition), name: name ?? null });
+        return this;
+    }
+
+    engine(engine: string): this {
+        this.options.engine = keyword(engine, 'engine');
+        return this;
+    }
+
+    charset(charset: string): this {
+        this.options.charset = keyword(charset, 'charset');
+        return this;
+    }
+
+    collation(collation: string): this {
+        this.options.collation = keyword(collation, 'collation');
+        return this;
+    }
+
+    comment(comment: string): this {
+        this.options.comment = comment;
+        return this;
+    }
+
+    /** Drops columns (only when altering a table). */
+    dropColumn(columns: string | string[]): this {
+        for (const column of Array.isArray(columns) ? columns : [columns]) {
+            this.drops.push(`DROP COLUMN ${escapeIdentifier(column)}`);
+        }
+        return this;
+    }
+
+    /** Renames a column (only when altering a table). */
+    renameColumn(from: string, to: string): this {
+        this.drops.push(`RENAME COLUMN ${escapeIdentifier(from)} TO ${escapeIdentifier(to)}`);
+        return this;
+    }
+
+    /** Drops an index by name (only when altering a table). */
+    dropIndex(name: string): this {
+        this.drops.push(`DROP INDEX ${escapeIdentifier(name)}`);
+        return this;
+    }
+
+    /** Drops a foreign key by name (only when altering a table). */
+    dropForeign(name: string): this {
+        this.drops.push(`DROP FOREIGN KEY ${escapeIdentifier(name)}`);
+        return this;
+    }
+
+    /** Drops a CHECK constraint by name (only when altering a table). */
+    dropCheck(name: string): this {
+        this.drops.push(`DROP CHECK ${escapeIdentifier(name)}`);
+        return this;
+    }
+
+    /** Drops the primary key (only when altering a table). */
+    dropPrimary(): this {
+        this.drops.push('DROP PRIMARY KEY');
+        return this;
+    }
+
+    /**
+     * Describes the declared table with the same model returned by `db.introspect()`,
+     * so that the definition can be compared with the live table.
+     *
+     * @returns {TableInfo} - The table model.
+     */
+    toTableInfo(): TableInfo {
+        this.#collectConstraints();
+        const indexes: IndexInfo[] = this.columns.flatMap(column => column.inlineIndexes());
+        for (const index of this.indexes) {
+            indexes.push({ name: index.name ?? 'PRIMARY', type: INDEX_TYPES[index.type], columns: index.columns });
+        }
+        const primary = indexes.find(index => index.type === 'PRIMARY')?.columns ?? [];
+        const checks: CheckInfo[] = this.checks
+            .filter(check => check.name !== null)
+            .map(check => ({ name: check.name as string, expression: check.expression }));
+
+        return {
+            name: this.tableName.split('.').pop() as string,
+            engine: this.options.engine ?? null,
+            charset: this.options.charset ?? null,
+            collation: this.options.collation ?? null,
+            comment: this.options.comment ?? '',
+            rowFormat: null,
+            autoIncrement: null,
+            createdAt: null,
+            columns: this.columns.map((column, index) => column.toColumnInfo(index + 1, primary.includes(column.name))),
+            indexes,
+            foreignKeys: this.foreigns.map(foreign => foreign.toForeignKeyInfo()),
+            checks,
+        };
+    }
+
+    /**
+     * Compiles a `CREATE TABLE` statement. Defaults, comments and ENUM values are escaped inline,
+     * so `bindings` is always empty and the SQL can be run as-is or as a prepared statement.
+     *
+     * @param {CreateTableOptions} options - `ifNotExists` adds `IF NOT EXISTS`.
+     * @returns {CompiledQuery} - The statement, with no bindings.
+     */
+    toCreateSql(options: CreateTableOptions = {}): CompiledQuery {
+        this.#collectConstraints();
+        if (this.columns.length === 0) {
+            throw new QueryBuilderError(`Table ${this.tableName} must have at least one column.`);
+        }
+
+        return {
+            sql: `CREATE TABLE ${options.ifNotExists ? 'IF NOT EXISTS ' : ''}${wrapIdentifier(this.tableName)} (${this.#definitions().join(', ')})${this.#tableOptions()}`,
+            bindings: [],
+        };
+    }
+
+    /**
+     * Compiles a single `ALTER TABLE` statement with every change, or `null` when nothing was declared.
+     * As with `toCreateSql`, values are escaped inline and `bindings` is always empty.
+     *
+     * @returns {CompiledQuery | null} - The statement, with no bindings.
+     */
+    toAlterSql(): CompiledQuery | null {
+        this.#collectConstraints();
+        const parts: string[] = [...this.drops];
+
+        for (const column of this.columns) {
+            parts.push(`${column.isChange ? 'MODIFY COLUMN' : 'ADD COLUMN'} ${column.compile()}`);
+        }
+        for (const definition of this.#definitions(false)) {
+            parts.push(`ADD ${definition}`);
+        }
+
+        const tableOptions = this.#tableOptions();
+        if (tableOptions) {
+            parts.push(tableOptions.trim());
+        }
+        if (parts.length === 0) {
+            return null;
+        }
+        return { sql: `ALTER TABLE ${wrapIdentifier(this.tableName)} ${parts.join(', ')}`, bindings: [] };
+    }
+
+    #collectConstraints() {
+        if (!this.collected) {
+            this.collected = true;
+            for (const column of this.columns) {
+                column.constraints(this);
+            }
+        }
+    }
+
+    #definitions(includeColumns: boolean = true): string[] {
+        const definitions: string[] = includeColumns ? this.columns.map(column => column.compile()) : [];
+
+        for (const index of this.indexes) {
+            const name = index.name ? `${escapeIdentifier(index.name)} ` : '';
+            definitions.push(`${index.type} ${name}(${columnList(index.columns)})`);
+        }
+        for (const foreign of this.foreigns) {
+            definitions.push(foreign.compile());
+        }
+        for (const check of this.checks) {
+            const name = check.name ? `CONSTRAINT ${escapeIdentifier(check.name)} ` : '';
+            definitions.push(`${name}CHECK (${check.expression})`);
+        }
+        return definitions;
+    }
+
+    #tableOptions(): string {
+        let sql = '';
+        if (this.options.engine) sql += ` ENGINE=${this.options.engine}`;
+        if (this.options.charset) sql += ` DEFAULT CHARSET=${this.options.charset}`;
+        if (this.options.collation) sql += ` COLLATE=${this.options.collation}`;
+        if (this.options.comment !== undefined) sql += ` COMMENT=${escape(this.options.comment)}`;
+        return sql;
+    }
+
+    #indexName(columns: string[], suffix: string): string {
+        return `${this.tableName.split('.').pop()}_${columns.join('_')}_${suffix}`.toLowerCase();
+    }
+}
+
+// Tipos que guardan su valor por defecto como texto entre comillas
+const STRING_TYPES = ['VARCHAR', 'CHAR', 'TEXT', 'ENUM', 'SET'];
+
+/**
+ * Declares a legacy `Field` on a table builder, keeping the `create`/`Columns` semantics:
+ * string defaults are quoted, other defaults are written as SQL (`CURRENT_TIMESTAMP`, numbers...).
+ *
+ * @param {TableBuilder} table - The table builder.
+ * @param {Field} field - The field definition.
+ * @param {boolean} withDefault - Whether the default clause is emitted.
+ * @returns {ColumnBuilder} - The declared column.
+ */
+export function fieldColumn(table: TableBuilder, field: Field, withDefault: boolean = Boolean(field.defaultValue)): ColumnBuilder {
+    const { name, type, defaultValue, length, options, foreign } = field;
+    if (!name || !type) {
+        throw new QueryBuilderError('Each field must have a name and a type.');
+    }
+
+    const column = table.column(name, type, (length && type.toUpperCase() !== 'TEXT') ? length : undefined);
+    if (withDefault) {
+        if (STRING_TYPES.includes(type.toUpperCase())) {
+            column.default(defaultValue || null);
+        } else if (defaultValue !== 'NONE' && defaultValue !== null) {
+            column.default(defaultValue ? new Raw(String(defaultValue)) : null);
+        }
+    }
+    if (options?.includes('autoincrement')) column.autoIncrement();
+    if (options?.includes('unique')) column.unique();
+    if (options?.includes('primary')) column.primary();
+    if (foreign) column.references(foreign.table, foreign.column);
+    return column;
+}
+
+/**
+ * Declares the FULLTEXT indexes of legacy `Field` definitions: `fullText: true` indexes the column alone,
+ * fields that share a `fullText` name are indexed together under that name.
+ *
+ * @param {TableBuilder} table - The table builder.
+ * @param {Field[]} fields - The field definitions.
+ *
+ * @example
+ * fieldIndexes(table, [
+ *     { name: 'title', type: 'VARCHAR', length: 200, fullText: 'posts_search' },
+ *     { name: 'body', type: 'TEXT', fullText: 'posts_search' },
+ * ]); // FULLTEXT KEY `posts_search` (`title`, `body`)
+ */
+export function fieldIndexes(table: TableBuilder, fields: Field[]): void {
+    const named = new Map<string, string[]>();
+    for (const field of fields) {
+        if (field.fullText === true) {
+            table.fullText([field.name]);
+        } else if (typeof field.fullText === 'string') {
+            named.set(field.fullText, [...(named.get(field.fullText) ?? []), field.name]);
+        }
+    }
+    named.forEach((columns, name) => table.fullText(columns, name));
+}
+
+/**
+ * Schema operations available as `db.schema`.
+ *
+ * @example
+ * await db.schema.createTable('users', t => {
+ *     t.id();
+ *     t.string('email', 191).notNull().unique();
+ *     t.timestamps();
+ * });
+ */
+export class SchemaBuilder {
+    private conection: QueryExecutor | null;
+
+    constructor(conection: QueryExecutor | null = null) {
+        this.conection = conection;
+    }
+
+    /**
+     * Creates a table.
+     *
+     * @param {string} tableName - The table name.
+     * @param {Function} callback - Receives a `TableBuilder` to declare columns, indexes and options.
+     * @param {CreateTableOptions} options - `ifNotExists` adds `IF NOT EXISTS`.
+     *
+     * @example
+     * await db.schema.createTable('order_items', t => {
+     *     t.foreignId('order_id').references('orders').onDelete('cascade');
+     *     t.integer('product_id').unsigned().notNull();
+     *     t.integer('quantity').notNull().default(1);
+     *     t.primary(['order_id', 'product_id']);
+     *     t.engine('InnoDB');
+     * });
+     */
+    async createTable(tableName: string, callback: (table: TableBuilder) => void, options: CreateTableOptions = {}): Promise<void> {
+        const table = new TableBuilder(tableName);
+        callback(table);
+        const { sql, bindings } = table.toCreateSql(options);
+        await this.#get_response(sql, bindings);
+    }
+
+    /**
+     * Alters an existing table. Declared columns are added unless `change()` is called on them.
+     *
+     * @example
+     * await db.schema.table('users', t => {
+     *     t.string('phone', 20).nullable().after('email');
+     *     t.string('name', 150).notNull().change();
+     *     t.dropColumn('legacy_code');
+     * });
+     */
+    async table(tableName: string, callback: (table: TableBuilder) => void): Promise<void> {
+        const table = new TableBuilder(tableName);
+        callback(table);
+        const query = table.toAlterSql();
+        if (query) {
+            await this.#get_response(query.sql, query.bindings);
+        }
+    }
+
+    async dropTable(tableName: string): Promise<void> {
+        await this.#get_response(`DROP TABLE ${wrapIdentifier(tableName)}`);
+    }
+
+    async dropTableIfExists(tableName: string): Promise<void> {
+        await this.#get_response(`DROP TABLE IF EXISTS ${wrapIdentifier(tableName)}`);
+    }
+
+    async renameTable(from: string, to: string): Promise<void> {
+        await this.#get_response(`RENAME TABLE ${wrapIdentifier(from)} TO ${wrapIdentifier(to)}`);
+    }
+
+    async hasTable(tableName: string): Promise<boolean> {
+        const result: any = await this.#get_response('SHOW TABLES LIKE ?', [tableName]);
+        return Array.isArray(result) && result.length > 0;
+    }
+
+    async hasColumn(tableName: string, column: string): Promise<boolean> {
+        const result: any = await this.#get_response(`SHOW COLUMNS FROM ${wrapIdentifier(tableName)} LIKE ?`, [column]);
+        return Array.isArray(result) && result.length > 0;
+    }
+
+    /**
+     * Compares the declared tables with the live database and returns the statements needed to match them,
+     * without running anything. Live tables missing from the definitions are dropped (except the migration tables).
+     *
+     * @param {TableDefinitions} definitions - The declared tables, keyed by name.
+     * @param {SchemaDiffOptions} options - `ignore` lists live tables that must never be dropped.
+     * @returns {Promise<SchemaStatement[]>} - The CREATE/ALTER/DROP statements, in execution order.
+     *
+     * @example
+     * const plan = await db.schema.diff({
+     *     users: t => {
+     *         t.id();
+     *         t.string('email', 191).notNull().unique();
+     *     },
+     * });
+     * // [{ table: 'users', type: 'alter', sql: 'ALTER TABLE `users` ADD COLUMN ...', bindings: [], destructive: false }]
+     */
+    async diff(definitions: TableDefinitions, options: SchemaDiffOptions = {}): Promise<SchemaStatement[]> {
+        if (!this.conection) {
+            throw new ConnectionError('The database connection has not been established.');
+        }
+        const tables = Object.entries(definitions).map(([name, callback]) => {
+            const table = new TableBuilder(name);
+            callback(table);
+            return table;
+        });
+        return diffSchema(await introspect(this.conection), tables, options);
+    }
+
+    /**
+     * Applies the plan returned by `diff()`. Destructive statements (dropping tables or columns,
+     * narrowing column types) are skipped unless `allowDestructive` is set.
+     * With `dryRun`, the SQL is printed instead of executed.
+     *
+     * @param {TableDefinitions} definitions - The declared tables, keyed by name.
+     * @param {SyncOptions} options - `allowDestructive`, `dryRun`, `logger` and `ignore`.
+     * @returns {Promise<SyncResult>} - The statements that were run and the skipped destructive ones.
+     *
+     * @example
+     * await db.schema.sync(definitions, { dryRun: true }); // Imprime el SQL
+     * await db.schema.sync(definitions, { allowDestructive: true });
+     */
+    async sync(definitions: TableDefinitions, options: SyncOptions = {}): Promise<SyncResult> {
+        const plan = await this.diff(definitions, options);
+        const skipped = options.allowDestructive ? [] : plan.filter(statement => statement.destructive);
+        const statements = plan.filter(statement => !skipped.includes(statement));
+
+        if (options.dryRun) {
+            const logger = options.logger ?? console.log;
+            statements.forEach(statement => logger(`${format(statement.sql, statement.bindings)};`));
+            skipped.forEach(statement => logger(`-- skipped (destructive): ${format(statement.sql, statement.bindings)};`));
+            return { statements, skipped };
+        }
+
+        for (const statement of statements) {
+            await this.#get_response(statement.sql, statement.bindings);
+        }
+        return { statements, skipped };
+    }
+
+    async #get_response(sql: string, bindings: any[] = []) {
+        if (!this.conection) {
+            throw new ConnectionError('The database connection has not been established.', { sql, bindings });
+        }
+        return this.conection.execute(sql, bindings);
+    }
+}
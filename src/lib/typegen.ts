@@ -0,0 +1,85 @@
+import type { ColumnInfo, QueryExecutor, TypeGenerationOptions } from '../@types/Field.js';
+import { introspect } from './introspection.js';
+
+// Tipos de MySQL según los valores que devuelve mysql2 con su configuración por defecto
+const TS_TYPES: Record<string, string> = {
+    tinyint: 'number', smallint: 'number', mediumint: 'number', int: 'number', integer: 'number', bigint: 'number',
+    float: 'number', double: 'number', real: 'number', year: 'number',
+    decimal: 'string', numeric: 'string',
+    char: 'string', varchar: 'string', tinytext: 'string', text: 'string', mediumtext: 'string', longtext: 'string',
+    time: 'string', set: 'string',
+    date: 'Date', datetime: 'Date', timestamp: 'Date',
+    binary: 'Buffer', varbinary: 'Buffer', tinyblob: 'Buffer', blob: 'Buffer', mediumblob: 'Buffer', longblob: 'Buffer', bit: 'Buffer',
+    json: 'unknown',
+};
+
+/**
+ * Maps a column to its TypeScript type: `TINYINT(1)` is a boolean, DECIMAL a string (mysql2 returns it as text),
+ * JSON `unknown`, ENUM a union of its values; nullable columns add `| null`.
+ *
+ * @param {ColumnInfo} column - The introspected column.
+ * @returns {string} - The TypeScript type.
+ */
+function columnType(column: ColumnInfo): string {
+    let type: string;
+    if (column.dataType === 'tinyint' && /^tinyint\(1\)/i.test(column.type)) {
+        type = 'boolean';
+    } else if (column.dataType === 'enum' && column.values && column.values.length > 0) {
+        type = column.values.map(value => `'${value.replace(/\\/g, '\\\\').replace(/'/g, "\\'")}'`).join(' | ');
+    } else {
+        type = TS_TYPES[column.dataType] ?? 'unknown';
+    }
+    return column.nullable && type !== 'unknown' ? `${type} | null` : type;
+}
+
+/**
+ * Generates the source of a `.ts` file with one interface per table and a `Database` map type,
+ * ready to be passed to `new MySQL<Database>()` or `createDatabase<Database>()`.
+ *
+ * @param {QueryExecutor} executor - The connection to introspect (e.g. `db`).
+ * @param {TypeGenerationOptions} options - Table filter and naming options.
+ * @returns {Promise<string>} - The TypeScript source.
+ *
+ * @example
+ * const source = await generateTypes(db);
+ * fs.writeFileSync('src/database.ts', source);
+ */
+export async function generateTypes(executor: QueryExecutor, options: TypeGenerationOptions = {}): Promise<string> {
+    const { tables } = await introspect(executor, { tables: options.tables });
+    const interfaceName = options.interfaceName ?? pascalCase;
+    const lines: string[] = ['// Generated by @kitdbase/mysql-query-builder. Do not edit by hand.', ''];
+
+    for (const table of tables) {
+        if (table.comment) {
+            lines.push(`/** ${docComment(table.comment)} */`);
+        }
+        lines.push(`export interface ${interfaceName(table.name)} {`);
+        for (const column of table.columns) {
+            if (column.comment) {
+                lines.push(`    /** ${docComment(column.comment)} */`);
+            }
+            lines.push(`    ${propertyName(column.name)}: ${columnType(column)};`);
+        }
+        lines.push('}', '');
+    }
+
+    lines.push(`export interface ${options.databaseName ?? 'Database'} {`);
+    for (const table of tables) {
+        lines.push(`    ${propertyName(table.name)}: ${interfaceName(table.name)};`);
+    }
+    lines.push('}', '');
+    return lines.join('\n');
+}
+
+function pascalCase(name: string): string {
+    const result = name.split(/[^A-Za-z0-9]+/).filter(Boolean).map(part => part[0].toUpperCase() + part.slice(1)).join('');
+    return /^[0-9]/.test(result) ? `_${result}` : result;
+}
+
+function propertyName(name: string): string {
+    return /^[A-Za-z_$][A-Za-z0-9_$]*$/.test(name) ? name : `'${name.replace(/\\/g, '\\\\').replace(/'/g, "\\'")}'`;
+}
+
+function docComment(text: string): string {
+    return text.replace(/\s+/g, ' ').replace(/\*\//g, '*\\/');
+}